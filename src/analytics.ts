@@ -1,4 +1,5 @@
 import type { MetricEvent } from "./types.js";
+import { resolvePricingRegistry, type PricingOverrides, type PricingRegistry } from "./pricing.js";
 
 /**
  * Time-series data point for trend analysis
@@ -18,6 +19,7 @@ export interface AnalyticsReport {
     byModel: Record<string, number>;
     byHour: TimeSeriesPoint[];
     projectedMonthly: number;
+    /** Net prompt cache savings after cache write premiums and storage (negative if caching cost more) */
     cacheSavings: number;
     avgCostPerRequest: number;
     avgCostPer1kTokens: number;
@@ -29,6 +31,13 @@ export interface AnalyticsReport {
     p50Latency: number;
     p95Latency: number;
     p99Latency: number;
+    /** Time to first token across streamed requests (0 when none) */
+    avgTimeToFirstToken: number;
+    p50TimeToFirstToken: number;
+    p95TimeToFirstToken: number;
+    p99TimeToFirstToken: number;
+    /** Average per-stream output throughput */
+    avgOutputTokensPerSecond: number;
     requestsPerMinute: number;
     tokensPerSecond: number;
   };
@@ -47,7 +56,12 @@ export interface AnalyticsReport {
     successRate: number;
     errorRate: number;
     errorsByType: Record<string, number>;
+    /** SDK-internal retries per request (from attempt_count) */
     avgRetriesPerRequest: number;
+    /** Retried attempts by reason (rate_limit, overloaded, server_error, ...) */
+    retriesByReason: Record<string, number>;
+    /** Total time spent backing off between attempts (ms) */
+    totalBackoffMs: number;
   };
 
   // Usage patterns
@@ -60,31 +74,20 @@ export interface AnalyticsReport {
   };
 }
 
-/**
- * Model pricing for cost calculations (per 1M tokens)
- */
-const DEFAULT_PRICING: Record<string, { input: number; output: number; cached: number }> = {
-  "gpt-5": { input: 2.00, output: 8.00, cached: 0.50 },
-  "gpt-5-mini": { input: 0.40, output: 1.60, cached: 0.10 },
-  "gpt-4.1": { input: 2.00, output: 8.00, cached: 0.50 },
-  "gpt-4.1-mini": { input: 0.40, output: 1.60, cached: 0.10 },
-  "gpt-4.1-nano": { input: 0.10, output: 0.40, cached: 0.025 },
-  "gpt-4o": { input: 2.50, output: 10.00, cached: 1.25 },
-  "gpt-4o-mini": { input: 0.15, output: 0.60, cached: 0.075 },
-  "o3": { input: 10.00, output: 40.00, cached: 2.50 },
-  "o3-mini": { input: 1.10, output: 4.40, cached: 0.275 },
-};
-
 /**
  * Analytics engine for collecting and analyzing metrics
  */
 export class AnalyticsEngine {
   private events: MetricEvent[] = [];
-  private pricing: Record<string, { input: number; output: number; cached: number }>;
+  private pricing: PricingRegistry;
   private startTime: Date = new Date();
 
-  constructor(customPricing?: Record<string, { input: number; output: number; cached: number }>) {
-    this.pricing = { ...DEFAULT_PRICING, ...customPricing };
+  /**
+   * @param pricing - Pricing registry to use, or per-model overrides layered on
+   *   top of the shared registry (default: shared registry)
+   */
+  constructor(pricing?: PricingRegistry | PricingOverrides) {
+    this.pricing = resolvePricingRegistry(pricing);
   }
 
   /**
@@ -94,38 +97,14 @@ export class AnalyticsEngine {
     this.events.push(event);
   }
 
-  /**
-   * Get the pricing for a model (with fallback to base model)
-   */
-  private getModelPricing(model: string): { input: number; output: number; cached: number } {
-    if (this.pricing[model]) return this.pricing[model];
-
-    // Try prefix matching (e.g., "gpt-4.1-mini-2025-04-14" -> "gpt-4.1-mini")
-    for (const key of Object.keys(this.pricing)) {
-      if (model.startsWith(key)) {
-        return this.pricing[key];
-      }
-    }
-
-    // Default fallback
-    return { input: 1.0, output: 3.0, cached: 0.25 };
-  }
-
   /**
    * Calculate cost for a single event
    */
   private calculateEventCost(event: MetricEvent): number {
-    if (event.input_tokens === 0 && event.output_tokens === 0) return 0;
-
-    const pricing = this.getModelPricing(event.model);
-    const uncachedInput = event.input_tokens - event.cached_tokens;
-    const cachedInput = event.cached_tokens;
-
-    return (
-      (uncachedInput / 1_000_000) * pricing.input +
-      (cachedInput / 1_000_000) * pricing.cached +
-      (event.output_tokens / 1_000_000) * pricing.output
-    );
+    return this.pricing.calculateCost(event.model, event, {
+      serviceTier: event.service_tier,
+      batch: event.batch,
+    }).total_cost;
   }
 
   /**
@@ -156,11 +135,12 @@ export class AnalyticsEngine {
       const baseModel = event.model.split("-").slice(0, 2).join("-");
       costByModel[baseModel] = (costByModel[baseModel] ?? 0) + cost;
 
-      // Calculate cache savings
-      if (event.cached_tokens > 0) {
-        const pricing = this.getModelPricing(event.model);
-        const savedCost = (event.cached_tokens / 1_000_000) * (pricing.input - pricing.cached);
-        totalCacheSavings += savedCost;
+      // Calculate cache savings (net of write premiums)
+      if (event.cached_tokens > 0 || event.cache_write_tokens) {
+        totalCacheSavings += this.pricing.calculateCost(event.model, event, {
+          serviceTier: event.service_tier,
+          batch: event.batch,
+        }).cache_savings;
       }
     }
 
@@ -182,6 +162,19 @@ export class AnalyticsEngine {
     const latencies = successful.map((e) => e.latency_ms).sort((a, b) => a - b);
     const avgLatency = latencies.length > 0 ? latencies.reduce((a, b) => a + b, 0) / latencies.length : 0;
 
+    // Streaming calculations (only streamed requests report these)
+    const ttfts = successful
+      .filter((e) => e.time_to_first_token_ms !== undefined)
+      .map((e) => e.time_to_first_token_ms!)
+      .sort((a, b) => a - b);
+    const avgTtft = ttfts.length > 0 ? ttfts.reduce((a, b) => a + b, 0) / ttfts.length : 0;
+    const throughputs = successful
+      .filter((e) => e.output_tokens_per_second !== undefined)
+      .map((e) => e.output_tokens_per_second!);
+    const avgOutputTokensPerSecond = throughputs.length > 0
+      ? throughputs.reduce((a, b) => a + b, 0) / throughputs.length
+      : 0;
+
     // Duration for rate calculations
     const durationMs = this.events.length > 0
       ? Math.max(1000, Date.now() - this.startTime.getTime())
@@ -210,6 +203,18 @@ export class AnalyticsEngine {
       errorsByType[errorType] = (errorsByType[errorType] ?? 0) + 1;
     }
 
+    // Retries (attempts beyond the first)
+    let totalRetries = 0;
+    let totalBackoffMs = 0;
+    const retriesByReason: Record<string, number> = {};
+    for (const event of this.events) {
+      totalRetries += Math.max(0, (event.attempt_count ?? 1) - 1);
+      totalBackoffMs += event.retry_backoff_ms ?? 0;
+      for (const reason of event.retry_reasons?.split(", ") ?? []) {
+        retriesByReason[reason] = (retriesByReason[reason] ?? 0) + 1;
+      }
+    }
+
     // Model distribution
     const modelDistribution: Record<string, number> = {};
     for (const event of this.events) {
@@ -244,6 +249,11 @@ export class AnalyticsEngine {
         p50Latency: this.percentile(latencies, 50),
         p95Latency: this.percentile(latencies, 95),
         p99Latency: this.percentile(latencies, 99),
+        avgTimeToFirstToken: avgTtft,
+        p50TimeToFirstToken: this.percentile(ttfts, 50),
+        p95TimeToFirstToken: this.percentile(ttfts, 95),
+        p99TimeToFirstToken: this.percentile(ttfts, 99),
+        avgOutputTokensPerSecond,
         requestsPerMinute: this.events.length / Math.max(durationMinutes, 1),
         tokensPerSecond: totalTokens / (durationMs / 1000),
       },
@@ -258,7 +268,9 @@ export class AnalyticsEngine {
         successRate: this.events.length > 0 ? (successful.length / this.events.length) * 100 : 100,
         errorRate: this.events.length > 0 ? (failed.length / this.events.length) * 100 : 0,
         errorsByType,
-        avgRetriesPerRequest: 0, // Would need retry tracking
+        avgRetriesPerRequest: this.events.length > 0 ? totalRetries / this.events.length : 0,
+        retriesByReason,
+        totalBackoffMs,
       },
       usage: {
         totalRequests: this.events.length,
@@ -321,14 +333,15 @@ ${Object.entries(report.costs.byModel)
 
 ## Performance Metrics
 
-| Percentile | Latency |
-|------------|---------|
-| p50 | ${report.performance.p50Latency.toFixed(0)}ms |
-| p95 | ${report.performance.p95Latency.toFixed(0)}ms |
-| p99 | ${report.performance.p99Latency.toFixed(0)}ms |
+| Percentile | Latency | Time to First Token |
+|------------|---------|---------------------|
+| p50 | ${report.performance.p50Latency.toFixed(0)}ms | ${report.performance.p50TimeToFirstToken.toFixed(0)}ms |
+| p95 | ${report.performance.p95Latency.toFixed(0)}ms | ${report.performance.p95TimeToFirstToken.toFixed(0)}ms |
+| p99 | ${report.performance.p99Latency.toFixed(0)}ms | ${report.performance.p99TimeToFirstToken.toFixed(0)}ms |
 
 - Requests per minute: ${report.performance.requestsPerMinute.toFixed(2)}
 - Tokens per second: ${report.performance.tokensPerSecond.toFixed(1)}
+- Streaming output tokens per second: ${report.performance.avgOutputTokensPerSecond.toFixed(1)}
 
 ## Token Efficiency
 
@@ -341,12 +354,20 @@ ${Object.entries(report.costs.byModel)
 
 - Success rate: ${report.reliability.successRate.toFixed(1)}%
 - Error rate: ${report.reliability.errorRate.toFixed(1)}%
+- Avg retries per request: ${report.reliability.avgRetriesPerRequest.toFixed(2)}
+- Time spent backing off: ${(report.reliability.totalBackoffMs / 1000).toFixed(1)}s
 ${Object.keys(report.reliability.errorsByType).length > 0
   ? "\n### Errors by Type\n" +
     Object.entries(report.reliability.errorsByType)
       .map(([type, count]) => `- ${type}: ${count}`)
       .join("\n")
   : ""}
+${Object.keys(report.reliability.retriesByReason).length > 0
+  ? "\n### Retries by Reason\n" +
+    Object.entries(report.reliability.retriesByReason)
+      .map(([reason, count]) => `- ${reason}: ${count}`)
+      .join("\n")
+  : ""}
 
 ## Usage Patterns
 
@@ -417,7 +438,7 @@ ${this.generateRecommendations(report)}
       );
     }
 
-    if (report.reliability.errorsByType["rate_limit"] > 0) {
+    if (report.reliability.errorsByType["rate_limit"] > 0 || report.reliability.retriesByReason["rate_limit"] > 0) {
       recommendations.push(
         "🚦 **Implement rate limiting**: You're hitting rate limits. Add client-side throttling or upgrade to a higher tier."
       );
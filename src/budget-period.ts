@@ -0,0 +1,147 @@
+/**
+ * Budget periods - reset boundaries for time-windowed budgets
+ *
+ * Calendar periods (hour, day, week, month) reset at boundaries in the
+ * budget's time zone. rolling_24h budgets never reset; they count the spend
+ * of the last 24 hours.
+ */
+
+import { logger } from "./logging.js";
+import type { BudgetPeriod } from "./control-types.js";
+
+/** Length of the rolling_24h window (ms) */
+export const ROLLING_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** Granularity of rolling spend buckets (ms) */
+export const SPEND_BUCKET_MS = 60 * 60 * 1000;
+
+/** Calendar periods that reset at a fixed boundary */
+export type CalendarBudgetPeriod = Exclude<BudgetPeriod, "rolling_24h">;
+
+/**
+ * Current window of a calendar period
+ */
+export interface BudgetWindow {
+  /** Window start (epoch ms, inclusive) */
+  start: number;
+  /** Next reset (epoch ms, exclusive) */
+  end: number;
+}
+
+// One formatter per time zone (Intl formatters are expensive to create)
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+/**
+ * Whether `timezone` is an IANA time zone name this runtime knows
+ */
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    if (!isValidTimeZone(timezone)) {
+      logger.warn(`Unknown budget time zone "${timezone}", using UTC`);
+      formatter = getFormatter("UTC");
+    } else {
+      formatter = new Intl.DateTimeFormat("en-US", {
+        timeZone: timezone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        hour: "numeric",
+        minute: "numeric",
+        second: "numeric",
+      });
+    }
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock time of an instant in a time zone, as if it were UTC
+ */
+function toWallClock(timestamp: number, timezone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(timestamp)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+/**
+ * Instant at which the wall clock of a time zone shows `wallClock`
+ */
+function fromWallClock(wallClock: number, timezone: string): number {
+  // Two passes: the offset at the target instant can differ from the
+  // offset at the first guess when a DST change lies in between
+  let guess = wallClock - (toWallClock(wallClock, timezone) - wallClock);
+  guess = wallClock - (toWallClock(guess, timezone) - guess);
+  return guess;
+}
+
+/**
+ * Window of a calendar period containing `now`.
+ * Weeks start on Monday.
+ *
+ * @param timezone - IANA time zone of the reset boundaries (default: UTC)
+ */
+export function getBudgetWindow(
+  period: CalendarBudgetPeriod,
+  timezone: string = "UTC",
+  now: number = Date.now()
+): BudgetWindow {
+  const local = new Date(toWallClock(now, timezone));
+  const year = local.getUTCFullYear();
+  const month = local.getUTCMonth();
+  const day = local.getUTCDate();
+
+  let start: number;
+  let end: number;
+  switch (period) {
+    case "hour":
+      start = Date.UTC(year, month, day, local.getUTCHours());
+      end = Date.UTC(year, month, day, local.getUTCHours() + 1);
+      break;
+    case "day":
+      start = Date.UTC(year, month, day);
+      end = Date.UTC(year, month, day + 1);
+      break;
+    case "week": {
+      const sinceMonday = (local.getUTCDay() + 6) % 7;
+      start = Date.UTC(year, month, day - sinceMonday);
+      end = Date.UTC(year, month, day - sinceMonday + 7);
+      break;
+    }
+    default: // month
+      start = Date.UTC(year, month, 1);
+      end = Date.UTC(year, month + 1, 1);
+      break;
+  }
+
+  return { start: fromWallClock(start, timezone), end: fromWallClock(end, timezone) };
+}
+
+/**
+ * Sum hourly spend buckets that overlap the rolling 24h window ending at
+ * `now`. The oldest, partly expired hour counts in full.
+ */
+export function sumRollingSpend(
+  hourly: Array<[number, number]> | undefined,
+  now: number = Date.now()
+): number {
+  const cutoff = now - ROLLING_WINDOW_MS;
+  let total = 0;
+  for (const [hourStart, spent] of hourly ?? []) {
+    if (hourStart + SPEND_BUCKET_MS > cutoff) total += spent;
+  }
+  return total;
+}
@@ -0,0 +1,440 @@
+/**
+ * Budget stores - persist budget spend across process restarts
+ *
+ * The ControlAgent keeps budget spend in memory and mirrors every change
+ * into a BudgetStore. With a file store, local enforcement picks up where
+ * it left off after a restart or a rolling deploy.
+ */
+
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from "fs";
+import { dirname } from "path";
+import { logger } from "./logging.js";
+import { ROLLING_WINDOW_MS, SPEND_BUCKET_MS } from "./budget-period.js";
+
+/**
+ * Persisted spend of one budget
+ */
+export interface BudgetSpendState {
+  /** Spend in USD since windowStart */
+  spent: number;
+  /** Start of the current reset window (epoch ms) */
+  windowStart: number;
+  /** Last time the state changed (epoch ms) */
+  updatedAt: number;
+  /**
+   * Spend per hour over the last 24 hours as [hour start (epoch ms), USD],
+   * oldest first. Used by rolling_24h budgets.
+   */
+  hourly?: Array<[number, number]>;
+}
+
+/**
+ * Storage for budget spend, keyed by budget id.
+ *
+ * Reads are synchronous: stores keep the current state in memory and
+ * restore it in load(). Writes must not throw; log and keep going instead.
+ */
+export interface BudgetStore {
+  /** Restore persisted state (called by ControlAgent.connect()) */
+  load(): Promise<void>;
+  /** Current state of a budget, or undefined if nothing was recorded */
+  get(budgetId: string): BudgetSpendState | undefined;
+  /** Add spend to the current window of a budget */
+  add(budgetId: string, amount: number): void;
+  /** Overwrite the spend of a budget (e.g. authoritative spend from the server) */
+  set(budgetId: string, spent: number): void;
+  /** Start a new window for a budget with zero spend */
+  reset(budgetId: string, windowStart?: number): void;
+  /** Persist pending state and release resources */
+  close(): Promise<void>;
+}
+
+// =============================================================================
+// State transitions (shared by live updates and log replay)
+// =============================================================================
+
+function addSpend(states: Map<string, BudgetSpendState>, id: string, amount: number, at: number): void {
+  let state = states.get(id);
+  if (!state) {
+    state = { spent: 0, windowStart: at, updatedAt: at, hourly: [] };
+    states.set(id, state);
+  }
+  state.spent += amount;
+  state.updatedAt = at;
+
+  // Hourly buckets for rolling windows; drop the ones that fell out
+  const hourly = (state.hourly ??= []);
+  const bucket = at - (at % SPEND_BUCKET_MS);
+  const last = hourly[hourly.length - 1];
+  if (last && last[0] === bucket) {
+    last[1] += amount;
+  } else {
+    hourly.push([bucket, amount]);
+  }
+  while (hourly.length > 0 && hourly[0][0] + SPEND_BUCKET_MS <= at - ROLLING_WINDOW_MS) {
+    hourly.shift();
+  }
+}
+
+function setSpend(
+  states: Map<string, BudgetSpendState>,
+  id: string,
+  spent: number,
+  at: number,
+  windowStart?: number,
+  hourly?: Array<[number, number]>
+): void {
+  states.set(id, {
+    spent,
+    windowStart: windowStart ?? states.get(id)?.windowStart ?? at,
+    updatedAt: at,
+    // Without a breakdown, count the whole amount in the current hour
+    hourly: hourly ?? (spent > 0 ? [[at - (at % SPEND_BUCKET_MS), spent]] : []),
+  });
+}
+
+function resetSpend(states: Map<string, BudgetSpendState>, id: string, windowStart: number, at: number): void {
+  states.set(id, { spent: 0, windowStart, updatedAt: at, hourly: [] });
+}
+
+/**
+ * In-memory budget store. State is lost when the process exits.
+ * This is the ControlAgent default.
+ */
+export class MemoryBudgetStore implements BudgetStore {
+  protected states: Map<string, BudgetSpendState> = new Map();
+
+  async load(): Promise<void> {}
+
+  get(budgetId: string): BudgetSpendState | undefined {
+    return this.states.get(budgetId);
+  }
+
+  add(budgetId: string, amount: number): void {
+    addSpend(this.states, budgetId, amount, Date.now());
+  }
+
+  set(budgetId: string, spent: number): void {
+    setSpend(this.states, budgetId, spent, Date.now());
+  }
+
+  reset(budgetId: string, windowStart: number = Date.now()): void {
+    resetSpend(this.states, budgetId, windowStart, Date.now());
+  }
+
+  async close(): Promise<void> {}
+}
+
+/**
+ * Options for the file-backed budget store
+ */
+export interface FileBudgetStoreOptions {
+  /** Path of the append-only log (JSONL) */
+  path: string;
+  /** Rewrite the log as a snapshot after this many appended entries. Default: 1000 */
+  compactAfter?: number;
+  /** Also compact on this interval (ms), 0 to disable. Default: 300000 (5 min) */
+  compactIntervalMs?: number;
+}
+
+/** A lock file older than this belongs to a crashed process */
+const LOCK_STALE_MS = 10000;
+/** Delay before retrying appends that found the log locked */
+const APPEND_RETRY_MS = 20;
+
+/**
+ * One line of the budget log
+ */
+type BudgetLogEntry =
+  | { op: "add"; id: string; amount: number; at: number }
+  | {
+      op: "set";
+      id: string;
+      spent: number;
+      window_start?: number;
+      hourly?: Array<[number, number]>;
+      at: number;
+    }
+  | { op: "reset"; id: string; window_start: number; at: number };
+
+/**
+ * Budget store backed by an append-only JSONL log.
+ *
+ * Every change is appended synchronously, so spend survives crashes. While
+ * another process holds the log, changes wait in memory and are appended on
+ * a short retry timer instead of blocking the event loop.
+ * Compaction replays the file, rewrites it as one snapshot line per budget
+ * and adopts the replayed state, which also picks up spend appended by other
+ * processes sharing the file (e.g. during a rolling deploy).
+ *
+ * Appends and compaction hold a lock file (`<path>.lock`), so several
+ * processes can share the log without a compaction dropping lines another
+ * process appended meanwhile. The processes must share a local filesystem.
+ *
+ * @example
+ * ```typescript
+ * const agent = createControlAgent({
+ *   apiKey: process.env.ADEN_API_KEY,
+ *   budgetStore: createFileBudgetStore({ path: "./.aden/budgets.jsonl" }),
+ * });
+ * ```
+ */
+export class FileBudgetStore extends MemoryBudgetStore {
+  private readonly path: string;
+  private readonly compactAfter: number;
+  private readonly compactIntervalMs: number;
+  private appendedSinceCompact = 0;
+  private compactTimer: ReturnType<typeof setInterval> | null = null;
+  /** Log lines waiting for the lock, oldest first */
+  private pending: string[] = [];
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: FileBudgetStoreOptions) {
+    super();
+    this.path = options.path;
+    this.compactAfter = options.compactAfter ?? 1000;
+    this.compactIntervalMs = options.compactIntervalMs ?? 300000;
+  }
+
+  async load(): Promise<void> {
+    mkdirSync(dirname(this.path), { recursive: true });
+    this.states = this.replay();
+    logger.debug(`Loaded ${this.states.size} budget(s) from ${this.path}`);
+
+    if (this.compactIntervalMs > 0 && !this.compactTimer) {
+      this.compactTimer = setInterval(() => this.compact(), this.compactIntervalMs);
+      this.compactTimer.unref?.();
+    }
+  }
+
+  add(budgetId: string, amount: number): void {
+    super.add(budgetId, amount);
+    this.append({ op: "add", id: budgetId, amount, at: Date.now() });
+  }
+
+  set(budgetId: string, spent: number): void {
+    super.set(budgetId, spent);
+    this.append({ op: "set", id: budgetId, spent, at: Date.now() });
+  }
+
+  reset(budgetId: string, windowStart: number = Date.now()): void {
+    super.reset(budgetId, windowStart);
+    this.append({ op: "reset", id: budgetId, window_start: windowStart, at: Date.now() });
+  }
+
+  /**
+   * Rewrite the log as a snapshot of the current state
+   */
+  compact(): void {
+    // Another process is compacting; its snapshot includes our appends
+    if (!this.lock()) return;
+
+    try {
+      this.writePending();
+      const states = this.replay();
+      const lines = [...states].map(([id, state]) =>
+        JSON.stringify({
+          op: "set",
+          id,
+          spent: state.spent,
+          window_start: state.windowStart,
+          hourly: state.hourly,
+          at: state.updatedAt,
+        } satisfies BudgetLogEntry)
+      );
+
+      // Write-then-rename so a crash never leaves a truncated log
+      const tmpPath = `${this.path}.tmp`;
+      writeFileSync(tmpPath, lines.length > 0 ? lines.join("\n") + "\n" : "");
+      renameSync(tmpPath, this.path);
+
+      this.states = states;
+      this.appendedSinceCompact = 0;
+    } catch (error) {
+      logger.warn(`Failed to compact budget log ${this.path}:`, error);
+    } finally {
+      this.unlock();
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.compactTimer) {
+      clearInterval(this.compactTimer);
+      this.compactTimer = null;
+    }
+    // A stale lock is removed after LOCK_STALE_MS, so this ends
+    while (this.pending.length > 0) {
+      this.flushPending();
+      if (this.pending.length > 0) {
+        await new Promise((resolve) => setTimeout(resolve, APPEND_RETRY_MS));
+      }
+    }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.appendedSinceCompact > 0) {
+      this.compact();
+    }
+  }
+
+  private append(entry: BudgetLogEntry): void {
+    // Queue behind entries still waiting for the lock to keep the log in order
+    this.pending.push(JSON.stringify(entry) + "\n");
+    this.flushPending();
+  }
+
+  /**
+   * Append queued entries, or retry later if another process holds the lock
+   */
+  private flushPending(): void {
+    if (this.pending.length === 0) return;
+
+    try {
+      if (!this.lock()) {
+        this.scheduleRetry();
+        return;
+      }
+    } catch (error) {
+      logger.warn(`Failed to persist budget spend to ${this.path}:`, error);
+      this.pending = [];
+      return;
+    }
+
+    try {
+      this.writePending();
+    } finally {
+      this.unlock();
+    }
+
+    if (this.appendedSinceCompact >= this.compactAfter) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Write queued entries to the log (the caller holds the lock)
+   */
+  private writePending(): void {
+    if (this.pending.length === 0) return;
+
+    const lines = this.pending;
+    this.pending = [];
+    try {
+      appendFileSync(this.path, lines.join(""));
+      this.appendedSinceCompact += lines.length;
+    } catch (error) {
+      logger.warn(`Failed to persist budget spend to ${this.path}:`, error);
+    }
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) return;
+    // Not unref'd: exiting now would lose the queued spend
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flushPending();
+    }, APPEND_RETRY_MS);
+  }
+
+  /**
+   * Take the lock file without waiting; false if another process holds it
+   */
+  private lock(): boolean {
+    const lockPath = `${this.path}.lock`;
+
+    for (;;) {
+      try {
+        closeSync(openSync(lockPath, "wx"));
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      }
+
+      try {
+        if (Date.now() - statSync(lockPath).mtimeMs > LOCK_STALE_MS) {
+          logger.warn(`Removing stale budget log lock ${lockPath}`);
+          unlinkSync(lockPath);
+          continue;
+        }
+      } catch (error) {
+        // Released between our attempts
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") continue;
+        throw error;
+      }
+
+      return false;
+    }
+  }
+
+  private unlock(): void {
+    try {
+      unlinkSync(`${this.path}.lock`);
+    } catch (error) {
+      logger.warn(`Failed to release budget log lock ${this.path}.lock:`, error);
+    }
+  }
+
+  /**
+   * Rebuild budget state from the log file
+   */
+  private replay(): Map<string, BudgetSpendState> {
+    const states: Map<string, BudgetSpendState> = new Map();
+    if (!existsSync(this.path)) {
+      return states;
+    }
+
+    const lines = readFileSync(this.path, "utf8").split("\n");
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      let entry: BudgetLogEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // A crash mid-append can leave a partial last line
+        logger.warn(`Skipping unreadable line in budget log ${this.path}`);
+        continue;
+      }
+
+      switch (entry.op) {
+        case "add":
+          addSpend(states, entry.id, entry.amount, entry.at);
+          break;
+        case "set":
+          setSpend(states, entry.id, entry.spent, entry.at, entry.window_start, entry.hourly);
+          break;
+        case "reset":
+          resetSpend(states, entry.id, entry.window_start, entry.at);
+          break;
+      }
+    }
+
+    return states;
+  }
+}
+
+/**
+ * Create an in-memory budget store
+ */
+export function createMemoryBudgetStore(): MemoryBudgetStore {
+  return new MemoryBudgetStore();
+}
+
+/**
+ * Create a budget store backed by an append-only JSONL file
+ */
+export function createFileBudgetStore(options: FileBudgetStoreOptions): FileBudgetStore {
+  return new FileBudgetStore(options);
+}
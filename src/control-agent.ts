@@ -5,12 +5,23 @@
  * Receives: control policies (budgets, throttle, block, degrade)
  *
  * Uses WebSocket for real-time communication with HTTP polling fallback.
+ * With a local policy (object or JSON/YAML file) the same rules are
+ * enforced offline, without a control server.
  */
 
 import { randomUUID } from "crypto";
 import WebSocket from "ws";
 import type { MetricEvent } from "./types.js";
 import { logger } from "./logging.js";
+import { getDefaultPricingRegistry, type ModelPricing, type PricingOverrides } from "./pricing.js";
+import { loadPolicyFile, validateControlPolicy, watchPolicyFile } from "./control-policy.js";
+import { createMemoryBudgetStore } from "./budget-store.js";
+import { getBudgetWindow, sumRollingSpend } from "./budget-period.js";
+import { ThrottleLimiter } from "./throttle-limiter.js";
+import { RateLimitTracker, type RateLimitCheck } from "./rate-limits.js";
+import { registerShutdownHandler } from "./shutdown.js";
+import { DiskSpool, type SpoolRef } from "./spool.js";
+import type { TransportStats } from "./http-transport.js";
 import type {
   AlertEvent,
   BudgetRule,
@@ -21,24 +32,41 @@ import type {
   ControlEvent,
   ControlPolicy,
   ControlRequest,
+  DegradeRule,
   HeartbeatEvent,
   IControlAgent,
   MetricEventWrapper,
   ServerEvent,
   ErrorEvent,
+  FallbackTarget,
+  FallbackTrigger,
+  ThrottleRule,
 } from "./control-types.js";
 
 // Package version (should match package.json)
 const SDK_VERSION = "0.1.0";
 
+// Options that configure local policy mode (kept out of the server options)
+type LocalPolicyOption = "policy" | "policyFile" | "watchPolicyFile";
+
+// Options without a default (kept out of the resolved options)
+type UnsetOption = "eventSpool";
+
+// Longest wait between HTTP event flushes while the server keeps failing (ms)
+const MAX_EVENT_FLUSH_BACKOFF_MS = 60000;
+
 /**
  * Control Agent implementation
  */
 export class ControlAgent implements IControlAgent {
-  private options: Required<ControlAgentOptions>;
+  private options: Required<Omit<ControlAgentOptions, LocalPolicyOption | UnsetOption>>;
+  private localPolicy: { file?: string; watch: boolean } | null = null;
+  private stopWatchingPolicy: (() => void) | null = null;
+  private unregisterShutdown: (() => void) | null = null;
   private ws: WebSocket | null = null;
   private cachedPolicy: ControlPolicy | null = null;
   private lastPolicyFetch: number = 0;
+  private serverSpendSynced: boolean = false;
   private pollingTimer: ReturnType<typeof setInterval> | null = null;
   private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
@@ -46,23 +74,39 @@ export class ControlAgent implements IControlAgent {
   private reconnectAttempts: number = 0;
   private maxReconnectAttempts: number = 10;
   private eventQueue: ServerEvent[] = [];
+  // Spool position of each queued event (parallel to eventQueue)
+  private eventQueueRefs: Array<SpoolRef | undefined> = [];
   private maxQueueSize: number = 1000;
+  private eventSpool: DiskSpool<ServerEvent> | null;
+  private eventFlushTimer: ReturnType<typeof setTimeout> | null = null;
+  // HTTP event flushes failed in a row (sets the backoff)
+  private eventFlushFailures: number = 0;
+
+  // Event delivery stats
+  private eventsSent: number = 0;
+  private eventsDropped: number = 0;
+  private eventErrors: number = 0;
 
   // Stats for heartbeat
   private requestsSinceLastHeartbeat: number = 0;
   private errorsSinceLastHeartbeat: number = 0;
 
-  // Rate limiting tracking
-  private requestCounts: Map<string, { count: number; windowStart: number }> = new Map();
+  // Throttle limiters by context and provider
+  private throttleLimiters: Map<string, ThrottleLimiter> = new Map();
+
+  // Provider rate limits reported in response headers
+  private rateLimits: RateLimitTracker;
 
-  // Pricing cache (fetched from server)
-  private pricingCache: Map<string, { input: number; output: number; cached_input: number }> = new Map();
-  private pricingAliases: Map<string, string> = new Map();
 
   constructor(options: ControlAgentOptions) {
+    const local = options.policy !== undefined || options.policyFile !== undefined;
+    if (!local && (!options.serverUrl || !options.apiKey)) {
+      throw new Error("ControlAgent requires serverUrl and apiKey, or a local policy / policyFile");
+    }
+
     this.options = {
-      serverUrl: options.serverUrl.replace(/\/$/, ""),
-      apiKey: options.apiKey,
+      serverUrl: (options.serverUrl ?? "").replace(/\/$/, ""),
+      apiKey: options.apiKey ?? "",
       pollingIntervalMs: options.pollingIntervalMs ?? 30000,
       heartbeatIntervalMs: options.heartbeatIntervalMs ?? 10000,
       timeoutMs: options.timeoutMs ?? 5000,
@@ -71,7 +115,8 @@ export class ControlAgent implements IControlAgent {
       instanceId: options.instanceId ?? randomUUID(),
       onAlert: options.onAlert ?? (() => {}),
       // Hybrid enforcement options (defaults match Python SDK)
-      enableHybridEnforcement: options.enableHybridEnforcement ?? true,
+      // No server to validate against in local policy mode
+      enableHybridEnforcement: local ? false : options.enableHybridEnforcement ?? true,
       serverValidationThreshold: options.serverValidationThreshold ?? 5,
       serverValidationTimeoutMs: options.serverValidationTimeoutMs ?? 2000,
       adaptiveThresholdEnabled: options.adaptiveThresholdEnabled ?? true,
@@ -80,13 +125,63 @@ export class ControlAgent implements IControlAgent {
       samplingBaseRate: options.samplingBaseRate ?? 0.1,
       samplingFullValidationPercent: options.samplingFullValidationPercent ?? 95,
       maxExpectedOverspendPercent: options.maxExpectedOverspendPercent ?? 10,
+      pricingRegistry: options.pricingRegistry ?? getDefaultPricingRegistry(),
+      budgetStore: options.budgetStore ?? createMemoryBudgetStore(),
+      adaptiveRateLimiting: options.adaptiveRateLimiting ?? false,
+      rateLimitHeadroomPercent: options.rateLimitHeadroomPercent ?? 5,
+      maxRateLimitDelayMs: options.maxRateLimitDelayMs ?? 30000,
     };
+    this.rateLimits = new RateLimitTracker({
+      headroomPercent: this.options.rateLimitHeadroomPercent,
+      maxDelayMs: this.options.maxRateLimitDelayMs,
+    });
+    // Local policy mode sends no events
+    this.eventSpool = options.eventSpool && !local ? new DiskSpool(options.eventSpool) : null;
+
+    if (local) {
+      this.localPolicy = { file: options.policyFile, watch: options.watchPolicyFile ?? true };
+      // In-memory policies are checked (and usable) right away
+      if (!options.policyFile && options.policy) {
+        this.cachedPolicy = validateControlPolicy(options.policy);
+        this.lastPolicyFetch = Date.now();
+      }
+    }
   }
 
   /**
-   * Connect to the control server
+   * Connect to the control server (or load the local policy file)
    */
   async connect(): Promise<void> {
+    // shutdown() sends the queued events, then disconnects
+    this.unregisterShutdown ??= registerShutdownHandler(
+      "ControlAgent",
+      async () => {
+        await this.flushEventQueue();
+        await this.disconnect();
+      },
+      "agent"
+    );
+
+    // Restore budget spend persisted before a restart
+    try {
+      await this.options.budgetStore.load();
+      if (this.cachedPolicy) {
+        this.applyPolicy(this.cachedPolicy);
+      }
+    } catch (error) {
+      logger.warn("Failed to load budget store:", error);
+    }
+
+    if (this.localPolicy) {
+      await this.loadLocalPolicy();
+      return;
+    }
+
+    // Replay events a previous process queued but never delivered
+    for (const { item, ref } of this.eventSpool?.recover(this.maxQueueSize) ?? []) {
+      this.queueEvent(item, ref);
+    }
+
     const url = this.options.serverUrl;
     logger.debug(`Connecting to control server: ${url}`);
 
@@ -109,6 +204,121 @@ export class ControlAgent implements IControlAgent {
 
     // Start heartbeat
     this.startHeartbeat();
+
+    // Without a WebSocket, replayed events go out over HTTP now
+    if (!this.connected) {
+      await this.flushEventQueue();
+    }
+  }
+
+  /**
+   * Load the local policy file (throws if it is invalid) and start watching it
+   */
+  private async loadLocalPolicy(): Promise<void> {
+    const { file, watch } = this.localPolicy!;
+    if (!file) return;
+
+    this.applyPolicy(await loadPolicyFile(file));
+    logger.info(`Loaded local policy from ${file} (version: ${this.cachedPolicy!.version})`);
+
+    if (watch && !this.stopWatchingPolicy) {
+      this.stopWatchingPolicy = watchPolicyFile(file, (policy) => this.applyPolicy(policy));
+    }
+  }
+
+  /**
+   * Replace the active policy, merging budget spend with the budget store.
+   *
+   * Local policies and the first server policy after startup keep the higher
+   * of the two (spend recorded before a restart may not have reached the
+   * server yet). Later server policies are authoritative.
+   */
+  private applyPolicy(policy: ControlPolicy, fromServer: boolean = false): void {
+    const store = this.options.budgetStore;
+    const authoritative = fromServer && this.serverSpendSynced;
+    const now = Date.now();
+
+    for (const budget of policy.budgets ?? []) {
+      const spent = budget.spent ?? 0;
+      const stored = this.getStoredSpend(budget, now);
+
+      if (authoritative) {
+        if (spent !== stored) store.set(budget.id, spent);
+      } else if (spent > stored) {
+        store.set(budget.id, spent);
+      } else {
+        budget.spent = stored;
+      }
+    }
+
+    if (fromServer) {
+      this.serverSpendSynced = true;
+    }
+    this.cachedPolicy = policy;
+    this.lastPolicyFetch = Date.now();
+  }
+
+  /**
+   * Replace the policy at runtime (e.g. an in-memory policy in tests or CI).
+   * The policy is validated first.
+   *
+   * @throws PolicyValidationError if the policy does not match the schema
+   */
+  setPolicy(policy: ControlPolicy): void {
+    this.applyPolicy(validateControlPolicy(policy));
+  }
+
+  /**
+   * Spend of a budget in its current period, according to the budget store.
+   * Starts a new window in the store when a calendar period has rolled over.
+   */
+  private getStoredSpend(budget: BudgetRule, now: number): number {
+    const store = this.options.budgetStore;
+    const state = store.get(budget.id);
+    if (!state) return 0;
+
+    if (budget.period === "rolling_24h") {
+      return sumRollingSpend(state.hourly, now);
+    }
+    if (budget.period) {
+      const { start } = getBudgetWindow(budget.period, budget.timezone, now);
+      if (state.windowStart < start) {
+        store.reset(budget.id, start);
+        return 0;
+      }
+    }
+    return state.spent;
+  }
+
+  /**
+   * Bring a budget's spend up to date with its period
+   */
+  private refreshBudgetPeriod(budget: BudgetRule, now: number = Date.now()): void {
+    if (budget.period) {
+      budget.spent = this.getStoredSpend(budget, now);
+    }
+  }
+
+  /**
+   * Describe when a budget's spend resets, for decision reasons
+   */
+  private describeBudgetPeriod(budget: BudgetRule): string {
+    if (!budget.period) return "";
+    if (budget.period === "rolling_24h") return " (rolling 24h)";
+    const label = { hour: "hourly", day: "daily", week: "weekly", month: "monthly" }[budget.period];
+    const { end } = getBudgetWindow(budget.period, budget.timezone);
+    return ` (${label}, resets ${new Date(end).toISOString()})`;
+  }
+
+  /**
+   * Reset the spend of a budget to zero and start a new window
+   */
+  resetBudget(budgetId: string): void {
+    this.options.budgetStore.reset(budgetId);
+    const budget = this.cachedPolicy?.budgets?.find((b) => b.id === budgetId);
+    if (budget) {
+      budget.spent = 0;
+    }
   }
 
   /**
@@ -207,9 +417,8 @@ export class ControlAgent implements IControlAgent {
       const message = JSON.parse(data);
 
       if (message.type === "policy") {
-        this.cachedPolicy = message.policy as ControlPolicy;
-        this.lastPolicyFetch = Date.now();
-        logger.info("Policy updated:", this.cachedPolicy.version);
+        this.applyPolicy(message.policy as ControlPolicy, true);
+        logger.info("Policy updated:", this.cachedPolicy!.version);
       } else if (message.type === "command") {
         // Handle real-time commands (future: immediate block, etc.)
         logger.info("Command received:", message);
@@ -258,8 +467,7 @@ export class ControlAgent implements IControlAgent {
       const response = await this.httpRequest("/v1/control/policy", "GET");
       if (response.ok) {
         const policy = await response.json() as ControlPolicy;
-        this.cachedPolicy = policy;
-        this.lastPolicyFetch = Date.now();
+        this.applyPolicy(policy, true);
         logger.debug(`Policy fetched successfully (version: ${policy.version}, budgets: ${policy.budgets?.length ?? 0})`);
       } else {
         logger.debug(`Policy fetch returned status ${response.status}`);
@@ -270,7 +478,7 @@ export class ControlAgent implements IControlAgent {
   }
 
   /**
-   * Fetch pricing table from server and cache it
+   * Fetch pricing table from server and load it into the pricing registry
    */
   private async fetchPricing(): Promise<void> {
     logger.debug("Fetching pricing table from server...");
@@ -280,69 +488,37 @@ export class ControlAgent implements IControlAgent {
         const data = await response.json() as { pricing?: Record<string, { input?: number; output?: number; cached_input?: number; aliases?: string[] }> };
         const pricing = data.pricing ?? {};
 
-        // Build cache and alias map
+        // Server prices override the built-in table for every component
+        const table: PricingOverrides = {};
+        const aliases: Record<string, string> = {};
         for (const [model, rates] of Object.entries(pricing)) {
-          const modelLower = model.toLowerCase();
-          this.pricingCache.set(modelLower, {
-            input: rates.input ?? 1.0,
-            output: rates.output ?? 3.0,
-            cached_input: rates.cached_input ?? (rates.input ?? 1.0) * 0.25,
-          });
+          // Keep tier/batch rates from the built-in entry when the server only sends base rates
+          const existing = this.options.pricingRegistry.resolve(model);
+          const current: ModelPricing | undefined = existing.match === "exact" ? existing.pricing : undefined;
+          const input = rates.input ?? current?.input ?? 1.0;
+          table[model] = {
+            ...current,
+            input,
+            output: rates.output ?? current?.output ?? 3.0,
+            cached: rates.cached_input ?? current?.cached ?? input * 0.25,
+          };
 
-          // Index aliases
-          if (rates.aliases) {
-            for (const alias of rates.aliases) {
-              this.pricingAliases.set(alias.toLowerCase(), modelLower);
-            }
+          for (const alias of rates.aliases ?? []) {
+            aliases[alias] = model;
           }
         }
+        this.options.pricingRegistry.load(table, aliases);
 
-        logger.debug(`Loaded pricing for ${this.pricingCache.size} models`);
+        logger.debug(`Loaded pricing for ${Object.keys(table).length} models`);
       } else {
         logger.debug(`Pricing fetch returned status ${response.status}`);
       }
     } catch (error) {
       logger.warn("Failed to fetch pricing:", error);
-      // Continue with fallback pricing
+      // Continue with built-in pricing
     }
   }
 
-  /**
-   * Get pricing for a model from cached pricing table
-   */
-  private getModelPricing(model: string): { input: number; output: number; cached_input: number } {
-    const fallback = { input: 1.0, output: 3.0, cached_input: 0.25 };
-
-    if (!model) {
-      return fallback;
-    }
-
-    const modelLower = model.toLowerCase();
-
-    // Check direct match first
-    if (this.pricingCache.has(modelLower)) {
-      return this.pricingCache.get(modelLower)!;
-    }
-
-    // Check aliases
-    if (this.pricingAliases.has(modelLower)) {
-      const canonical = this.pricingAliases.get(modelLower)!;
-      if (this.pricingCache.has(canonical)) {
-        return this.pricingCache.get(canonical)!;
-      }
-    }
-
-    // Try prefix matching for versioned models
-    for (const [cachedModel, rates] of this.pricingCache) {
-      if (modelLower.startsWith(cachedModel) || cachedModel.startsWith(modelLower)) {
-        return rates;
-      }
-    }
-
-    // Fallback pricing for unknown models
-    return fallback;
-  }
-
   /**
    * Start heartbeat timer
    */
@@ -395,14 +571,28 @@ export class ControlAgent implements IControlAgent {
    */
   async disconnect(): Promise<void> {
     logger.debug("Disconnecting from control server...");
+    this.unregisterShutdown?.();
+    this.unregisterShutdown = null;
     this.stopPolling();
     this.stopHeartbeat();
 
+    if (this.stopWatchingPolicy) {
+      this.stopWatchingPolicy();
+      this.stopWatchingPolicy = null;
+    }
+
+    await this.options.budgetStore.close();
+
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
       this.reconnectTimer = null;
     }
 
+    if (this.eventFlushTimer) {
+      clearTimeout(this.eventFlushTimer);
+      this.eventFlushTimer = null;
+    }
+
     if (this.ws) {
       this.ws.close();
       this.ws = null;
@@ -425,18 +615,125 @@ export class ControlAgent implements IControlAgent {
         : { action: "block", reason: "No policy available and failOpen is false" };
     }
 
-    return await this.evaluatePolicy(request, this.cachedPolicy);
+    const policy = this.cachedPolicy;
+    let decision = await this.evaluatePolicy(request, policy);
+
+    // Rate limits and throttles only reserve capacity for requests that go ahead
+    if (decision.action === "block") {
+      return decision;
+    }
+
+    // Provider capacity is running out: switch models if a rule allows it, otherwise wait
+    if (this.options.adaptiveRateLimiting) {
+      const limited = this.rateLimits.check(request.provider, request.model, request.estimated_input_tokens);
+      if (limited) {
+        const degrade =
+          decision.action === "allow" || decision.action === "alert"
+            ? this.findRateLimitDegradation(request, policy)
+            : undefined;
+        decision = degrade
+          ? {
+              action: "degrade",
+              reason: limited.reason,
+              degradeToModel: degrade.to_model,
+              degradeToProvider: degrade.to_provider ?? degrade.provider,
+            }
+          : this.withThrottle(decision, limited);
+      }
+    }
+
+    if (policy.throttles) {
+      const throttle = await this.applyThrottles(request, policy.throttles);
+      if (throttle) {
+        decision = this.withThrottle(decision, throttle);
+      }
+    }
+    return decision;
+  }
+
+  /**
+   * Add a delay to a decision: allow becomes throttle, other actions keep
+   * their action and wait for the longest delay
+   */
+  private withThrottle(decision: ControlDecision, throttle: RateLimitCheck): ControlDecision {
+    if (decision.action === "allow") {
+      return { action: "throttle", reason: throttle.reason, throttleDelayMs: throttle.delayMs };
+    }
+    if (throttle.delayMs > (decision.throttleDelayMs ?? 0)) {
+      decision.throttleDelayMs = throttle.delayMs;
+    }
+    return decision;
+  }
+
+  /**
+   * Find a "rate_limit" degradation rule for the request's provider and model
+   */
+  private findRateLimitDegradation(request: ControlRequest, policy: ControlPolicy): DegradeRule | undefined {
+    return policy.degradations?.find(
+      (degrade) =>
+        degrade.trigger === "rate_limit" &&
+        degrade.provider === request.provider &&
+        degrade.from_model === request.model &&
+        (!degrade.context_id || degrade.context_id === request.context_id)
+    );
+  }
+
+  /**
+   * Apply the throttle rules matching a request: wait for concurrency slots
+   * and reserve request/token capacity. Returns the longest remaining delay,
+   * or null when no rule throttled the request.
+   */
+  private async applyThrottles(
+    request: ControlRequest,
+    throttles: ThrottleRule[]
+  ): Promise<{ delayMs: number; reason: string } | null> {
+    let result: { delayMs: number; reason: string } | null = null;
+
+    for (const throttle of throttles) {
+      // Match by context (or global) and provider (or all)
+      if (throttle.context_id && throttle.context_id !== request.context_id) continue;
+      if (throttle.provider && throttle.provider !== request.provider) continue;
+
+      if (!throttle.requests_per_minute && !throttle.tokens_per_minute && !throttle.max_concurrent) {
+        // Fixed delay (no limits, just a constant delay)
+        if (throttle.delay_ms && (!result || throttle.delay_ms > result.delayMs)) {
+          result = { delayMs: throttle.delay_ms, reason: "Fixed throttle delay" };
+        }
+        continue;
+      }
+
+      const admission = await this.getThrottleLimiter(throttle).acquire(
+        throttle,
+        request.estimated_input_tokens,
+        request.span_id
+      );
+      if (admission.reason && (!result || admission.delayMs >= result.delayMs)) {
+        result = { delayMs: admission.delayMs, reason: admission.reason };
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Get (or create) the limiter for a throttle rule's context and provider
+   */
+  private getThrottleLimiter(throttle: ThrottleRule): ThrottleLimiter {
+    const key = `${throttle.context_id ?? "global"}:${throttle.provider ?? "all"}`;
+    let limiter = this.throttleLimiters.get(key);
+    if (!limiter) {
+      limiter = new ThrottleLimiter();
+      this.throttleLimiters.set(key, limiter);
+    }
+    return limiter;
   }
 
   /**
    * Evaluate policy rules against a request
-   * Priority order: block > budget/degrade > throttle > alert > allow
-   * Note: throttle adds delay but doesn't skip other checks
+   * Priority order: block > budget/degrade > alert > allow
+   * Note: throttle rules are applied afterwards (see getDecision)
    */
   private async evaluatePolicy(request: ControlRequest, policy: ControlPolicy): Promise<ControlDecision> {
-    // Track throttle info separately (throttle is applied but doesn't skip other checks)
-    let throttleInfo: { delayMs: number; reason: string } | null = null;
-
     // 1. Check block rules first (highest priority)
     if (policy.blocks) {
       for (const block of policy.blocks) {
@@ -446,40 +743,7 @@ export class ControlAgent implements IControlAgent {
       }
     }
 
-    // 2. Check throttle rules (rate limiting - captures delay but continues checking)
-    if (policy.throttles) {
-      for (const throttle of policy.throttles) {
-        // Match by context or global
-        if (!throttle.context_id || throttle.context_id === request.context_id) {
-          // Match by provider or all
-          if (!throttle.provider || throttle.provider === request.provider) {
-            // Check rate limit
-            if (throttle.requests_per_minute) {
-              const key = `${throttle.context_id ?? "global"}:${throttle.provider ?? "all"}`;
-              const rateInfo = this.checkRateLimit(key, throttle.requests_per_minute);
-              if (rateInfo.exceeded) {
-                throttleInfo = {
-                  delayMs: throttle.delay_ms ?? 1000,
-                  reason: `Rate limit: ${rateInfo.count}/${throttle.requests_per_minute}/min`,
-                };
-                break; // Found throttle, but continue to check budget/degrade/block
-              }
-            }
-
-            // Apply fixed delay (no rate limit, just a constant delay)
-            if (throttle.delay_ms && !throttle.requests_per_minute) {
-              throttleInfo = {
-                delayMs: throttle.delay_ms,
-                reason: "Fixed throttle delay",
-              };
-              break;
-            }
-          }
-        }
-      }
-    }
-
-    // 3. Check budget limits (with hybrid enforcement when enabled)
+    // 2. Check budget limits (with hybrid enforcement when enabled)
     // Evaluate ALL matching budgets and return the MOST RESTRICTIVE decision
     if (policy.budgets) {
       const applicableBudgets = this.findApplicableBudgets(policy.budgets, request);
@@ -493,14 +757,10 @@ export class ControlAgent implements IControlAgent {
 
           if (this.options.enableHybridEnforcement) {
             // Use hybrid enforcement evaluation
-            decision = await this.evaluateBudgetWithHybridEnforcement(
-              request,
-              budget,
-              throttleInfo
-            );
+            decision = await this.evaluateBudgetWithHybridEnforcement(request, budget);
           } else {
             // Local-only enforcement
-            decision = this.evaluateBudgetLocally(request, budget, throttleInfo);
+            decision = this.evaluateBudgetLocally(request, budget);
           }
 
           // Check degradation rules based on budget threshold (if no decision yet)
@@ -518,8 +778,7 @@ export class ControlAgent implements IControlAgent {
                     action: "degrade",
                     reason: `Budget "${budget.name}" at ${usagePercent.toFixed(1)}% (threshold: ${degrade.threshold_percent}%)`,
                     degradeToModel: degrade.to_model,
-                    degradeToProvider: degrade.provider,
-                    ...(throttleInfo && { throttleDelayMs: throttleInfo.delayMs }),
+                    degradeToProvider: degrade.to_provider ?? degrade.provider,
                   };
                   break;
                 }
@@ -544,16 +803,12 @@ export class ControlAgent implements IControlAgent {
 
         // Return most restrictive decision if found
         if (mostRestrictiveDecision) {
-          // Add throttle info if present and not already blocking
-          if (throttleInfo && mostRestrictiveDecision.action !== "block" && !mostRestrictiveDecision.throttleDelayMs) {
-            mostRestrictiveDecision.throttleDelayMs = throttleInfo.delayMs;
-          }
           return mostRestrictiveDecision;
         }
       }
     }
 
-    // 4. Check always-degrade rules
+    // 3. Check always-degrade rules
     if (policy.degradations) {
       for (const degrade of policy.degradations) {
         if (
@@ -566,15 +821,14 @@ export class ControlAgent implements IControlAgent {
               action: "degrade",
               reason: "Model degradation rule (always)",
               degradeToModel: degrade.to_model,
-              degradeToProvider: degrade.provider,
-              ...(throttleInfo && { throttleDelayMs: throttleInfo.delayMs }),
+              degradeToProvider: degrade.to_provider ?? degrade.provider,
             };
           }
         }
       }
     }
 
-    // 5. Check alert rules (alerts do NOT block - they notify and allow)
+    // 4. Check alert rules (alerts do NOT block - they notify and allow)
     if (policy.alerts) {
       for (const alert of policy.alerts) {
         if (this.matchesAlertRule(request, alert, policy)) {
@@ -599,21 +853,11 @@ export class ControlAgent implements IControlAgent {
             action: "alert",
             reason: alert.message,
             alertLevel: alert.level,
-            ...(throttleInfo && { throttleDelayMs: throttleInfo.delayMs }),
           };
         }
       }
     }
 
-    // 6. If throttle is active but no other action, return throttle
-    if (throttleInfo) {
-      return {
-        action: "throttle",
-        reason: throttleInfo.reason,
-        throttleDelayMs: throttleInfo.delayMs,
-      };
-    }
-
     return { action: "allow" };
   }
 
@@ -668,7 +912,7 @@ export class ControlAgent implements IControlAgent {
    */
   private matchesBlockRule(
     request: ControlRequest,
-    block: { context_id?: string; provider?: string; model_pattern?: string; reason: string }
+    block: { context_id?: string; provider?: string; model_pattern?: string }
   ): boolean {
     if (block.context_id && block.context_id !== request.context_id) return false;
     if (block.provider && block.provider !== request.provider) return false;
@@ -700,28 +944,28 @@ export class ControlAgent implements IControlAgent {
    */
   private evaluateBudgetLocally(
     request: ControlRequest,
-    budget: BudgetRule,
-    throttleInfo: { delayMs: number; reason: string } | null
+    budget: BudgetRule
   ): ControlDecision | null {
+    this.refreshBudgetPeriod(budget);
     const projectedSpend = budget.spent + (request.estimated_cost ?? 0);
 
     if (projectedSpend > budget.limit) {
+      const reason =
+        `Budget "${budget.name}" exceeded${this.describeBudgetPeriod(budget)}: ` +
+        `$${projectedSpend.toFixed(4)} > $${budget.limit}`;
+
       // Budget exceeded - check limitAction
       if (budget.limitAction === "degrade" && budget.degradeToModel) {
         return {
           action: "degrade",
-          reason: `Budget "${budget.name}" exceeded: $${projectedSpend.toFixed(4)} > $${budget.limit}`,
+          reason,
           degradeToModel: budget.degradeToModel,
           degradeToProvider: budget.degradeToProvider,
-          ...(throttleInfo && { throttleDelayMs: throttleInfo.delayMs }),
         };
       }
       // Map limitAction to ControlAction (kill -> block, throttle -> throttle)
       const action = budget.limitAction === "kill" ? "block" : budget.limitAction;
-      return {
-        action,
-        reason: `Budget "${budget.name}" exceeded: $${projectedSpend.toFixed(4)} > $${budget.limit}`,
-      };
+      return { action, reason };
     }
 
     return null;
@@ -738,6 +982,8 @@ export class ControlAgent implements IControlAgent {
    * - feature: Matches if request.metadata.feature == budget.name or budget.id
    * - tag: Matches if any request.metadata.tags intersect with budget.tags
    * - legacy (context_id): Matches if request.context_id == budget.context_id
+   *
+   * Spend of the returned budgets is brought up to date with their period.
    */
   private findApplicableBudgets(budgets: BudgetRule[], request: ControlRequest): BudgetRule[] {
     const result: BudgetRule[] = [];
@@ -810,25 +1056,11 @@ export class ControlAgent implements IControlAgent {
       }
     }
 
-    return result;
-  }
-
-  /**
-   * Check rate limit for a key
-   */
-  private checkRateLimit(key: string, limit: number): { exceeded: boolean; count: number } {
     const now = Date.now();
-    const windowMs = 60000; // 1 minute window
-
-    let info = this.requestCounts.get(key);
-    if (!info || now - info.windowStart > windowMs) {
-      info = { count: 0, windowStart: now };
+    for (const budget of result) {
+      this.refreshBudgetPeriod(budget, now);
     }
-
-    info.count++;
-    this.requestCounts.set(key, info);
-
-    return { exceeded: info.count > limit, count: info.count };
+    return result;
   }
 
   /**
@@ -852,11 +1084,30 @@ export class ControlAgent implements IControlAgent {
       data: enrichedEvent,
     };
 
+    // Free the concurrency slot and settle the token estimate of the request
+    // admitted with this span (blocked requests were never admitted; events
+    // of spans without a lease are ignored). Translated
+    // requests and fallback hops are admitted under their own span; the
+    // original provider's admission is released by the caller (see
+    // releaseAdmission) or by the failed call's own event.
+    const admitted = event.metadata?.blocked !== "true";
+    const throttles = admitted ? this.cachedPolicy?.throttles ?? [] : [];
+    for (const throttle of throttles) {
+      if (throttle.context_id && throttle.context_id !== contextId) continue;
+      if (throttle.provider && throttle.provider !== event.provider) continue;
+      if (throttle.tokens_per_minute || throttle.max_concurrent) {
+        this.getThrottleLimiter(throttle).release(throttle, event.total_tokens, event.span_id);
+      }
+    }
+
+    this.rateLimits.update(event);
+
     await this.sendEvent(wrapper);
 
-    // Update local budget tracking for all matching budgets
-    if (this.cachedPolicy?.budgets && event.total_tokens > 0) {
-      const estimatedCost = this.estimateCost(event);
+    // Update local budget tracking for all matching budgets (token and
+    // unit-priced events alike, e.g. images and audio)
+    const estimatedCost = this.cachedPolicy?.budgets ? this.estimateCost(event) : 0;
+    if (this.cachedPolicy?.budgets && estimatedCost > 0) {
       const contextId = this.options.getContextId?.();
       const metadata = event.metadata || {};
 
@@ -917,34 +1168,28 @@ export class ControlAgent implements IControlAgent {
         }
 
         if (shouldUpdate) {
+          this.refreshBudgetPeriod(budget);
           budget.spent += estimatedCost;
+          this.options.budgetStore.add(budget.id, estimatedCost);
         }
       }
     }
   }
 
   /**
-   * Estimate cost from a metric event using server pricing table.
-   * Falls back to default pricing if model not found.
+   * Estimate cost from a metric event. Uses the cost priced at emit time when
+   * present, otherwise the pricing registry (built-in prices, updated with the
+   * server pricing table on connect), including unit prices and batch rates.
    */
   private estimateCost(event: MetricEvent): number {
-    if (event.total_tokens === 0) {
-      return 0;
+    if (event.total_cost !== undefined) {
+      return event.total_cost;
     }
 
-    // Get pricing for this model (fetched from server on connect)
-    const rates = this.getModelPricing(event.model);
-
-    // Calculate cost (pricing is per 1M tokens)
-    // Use cached_input rate for cached tokens if available
-    const cachedTokens = event.cached_tokens ?? 0;
-    const regularInput = Math.max(0, event.input_tokens - cachedTokens);
-
-    const inputCost = (regularInput * rates.input) / 1_000_000;
-    const cachedCost = (cachedTokens * rates.cached_input) / 1_000_000;
-    const outputCost = (event.output_tokens * rates.output) / 1_000_000;
-
-    return inputCost + cachedCost + outputCost;
+    return this.options.pricingRegistry.calculateCost(event.model, event, {
+      serviceTier: event.service_tier,
+      batch: event.batch,
+    }).total_cost;
   }
 
   // ===========================================================================
@@ -1155,6 +1400,7 @@ export class ControlAgent implements IControlAgent {
       for (const budget of this.cachedPolicy.budgets) {
         if (budget.id === budgetId) {
           budget.spent = validation.updatedSpend;
+          this.options.budgetStore.set(budgetId, validation.updatedSpend);
           break;
         }
       }
@@ -1173,8 +1419,7 @@ export class ControlAgent implements IControlAgent {
    */
   private async evaluateBudgetWithHybridEnforcement(
     request: ControlRequest,
-    budget: BudgetRule,
-    throttleInfo: { delayMs: number; reason: string } | null
+    budget: BudgetRule
   ): Promise<ControlDecision | null> {
     const estimatedCost = request.estimated_cost ?? 0;
     const currentSpend = budget.spent;
@@ -1234,7 +1479,6 @@ export class ControlAgent implements IControlAgent {
           reason: `Budget "${budget.name}" exceeded: $${projectedSpend.toFixed(4)} > $${limit} (${projectedPercent.toFixed(1)}%)`,
           degradeToModel: budget.degradeToModel,
           degradeToProvider: budget.degradeToProvider,
-          ...(throttleInfo && { throttleDelayMs: throttleInfo.delayMs }),
         };
       }
       // Map limitAction to ControlAction (kill -> block, throttle -> throttle)
@@ -1288,6 +1532,9 @@ export class ControlAgent implements IControlAgent {
    * Send an event to the server
    */
   private async sendEvent(event: ServerEvent): Promise<void> {
+    // Local policy mode has no server to send to
+    if (this.localPolicy) return;
+
     // If WebSocket is connected, send via WebSocket
     if (this.connected && this.ws?.readyState === WebSocket.OPEN) {
       try {
@@ -1300,24 +1547,54 @@ export class ControlAgent implements IControlAgent {
     }
 
     // Otherwise queue for HTTP batch or later WebSocket send
-    this.queueEvent(event);
+    this.queueEvent(event, this.eventSpool?.append(event));
     logger.debug(`Event queued: ${event.event_type} (queue size: ${this.eventQueue.length})`);
 
-    // If not connected via WebSocket, send via HTTP immediately
+    // If not connected via WebSocket, send via HTTP (after a backoff while
+    // the server is failing)
     if (!this.connected) {
-      await this.flushEventQueue();
+      this.scheduleEventFlush();
+    }
+  }
+
+  /**
+   * Flush the event queue over HTTP: right away while the server is healthy,
+   * otherwise after a backoff that doubles with every failed flush. Events
+   * arriving meanwhile wait for the scheduled flush.
+   */
+  private scheduleEventFlush(): void {
+    if (this.eventFlushTimer || this.eventQueue.length === 0) return;
+
+    const delay =
+      this.eventFlushFailures === 0
+        ? 0
+        : Math.min(MAX_EVENT_FLUSH_BACKOFF_MS, 1000 * 2 ** (this.eventFlushFailures - 1));
+    this.eventFlushTimer = setTimeout(() => {
+      this.eventFlushTimer = null;
+      this.flushEventQueue().catch((error) => logger.warn("Failed to flush event queue:", error));
+    }, delay);
+    // Retries don't keep the process alive; spooled events are replayed on the next start
+    if (delay > 0) {
+      this.eventFlushTimer.unref?.();
     }
   }
 
   /**
    * Queue an event for later sending
+   *
+   * @param ref - Spool position of the event (if spooled)
    */
-  private queueEvent(event: ServerEvent): void {
+  private queueEvent(event: ServerEvent, ref?: SpoolRef): void {
     if (this.eventQueue.length >= this.maxQueueSize) {
-      // Drop oldest events when queue is full
+      // Drop oldest events when queue is full. Spooled ones stay on disk,
+      // unacknowledged, and are replayed on the next connect; they only
+      // count as dropped if the spool evicts them (spoolDropped).
       this.eventQueue.shift();
+      const [dropped] = this.eventQueueRefs.splice(0, 1);
+      if (!dropped) this.eventsDropped++;
     }
     this.eventQueue.push(event);
+    this.eventQueueRefs.push(ref);
   }
 
   /**
@@ -1328,34 +1605,60 @@ export class ControlAgent implements IControlAgent {
 
     const eventCount = this.eventQueue.length;
 
+    const events = this.eventQueue;
+    const refs = this.eventQueueRefs;
+    this.eventQueue = [];
+    this.eventQueueRefs = [];
+
     // If WebSocket is connected, send via WebSocket
     if (this.connected && this.ws?.readyState === WebSocket.OPEN) {
       logger.debug(`Flushing ${eventCount} events via WebSocket`);
-      const events = [...this.eventQueue];
-      this.eventQueue = [];
 
-      for (const event of events) {
+      const sent: Array<SpoolRef | undefined> = [];
+      events.forEach((event, i) => {
         try {
-          this.ws.send(JSON.stringify(event));
+          this.ws!.send(JSON.stringify(event));
+          this.eventsSent++;
+          sent.push(refs[i]);
         } catch (error) {
           // Re-queue failed events
-          this.queueEvent(event);
+          this.queueEvent(event, refs[i]);
         }
-      }
+      });
+      this.eventSpool?.ack(sent);
       return;
     }
 
     // Otherwise send via HTTP batch
     logger.debug(`Flushing ${eventCount} events via HTTP`);
     try {
-      const events = [...this.eventQueue];
-      this.eventQueue = [];
-
-      await this.httpRequest("/v1/control/events", "POST", { events });
+      const response = await this.httpRequest("/v1/control/events", "POST", { events });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      this.eventsSent += eventCount;
+      this.eventSpool?.ack(refs);
+      this.eventFlushFailures = 0;
       logger.debug(`Successfully sent ${eventCount} events via HTTP`);
     } catch (error) {
       logger.warn("Failed to flush event queue:", error);
-      // Events are lost - could re-queue but might cause infinite growth
+      this.eventErrors += eventCount;
+      this.eventFlushFailures++;
+      // Without a spool the events are lost (re-queuing could grow without
+      // bound); spooled events go back to the front of the queue
+      if (this.eventSpool) {
+        const queued = this.eventQueue;
+        const queuedRefs = this.eventQueueRefs;
+        this.eventQueue = [];
+        this.eventQueueRefs = [];
+        events.forEach((event, i) => this.queueEvent(event, refs[i]));
+        queued.forEach((event, i) => this.queueEvent(event, queuedRefs[i]));
+      }
+    }
+
+    // Requeued events, or events queued during the request
+    if (!this.connected) {
+      this.scheduleEventFlush();
     }
   }
 
@@ -1405,6 +1708,49 @@ export class ControlAgent implements IControlAgent {
   getPolicy(): ControlPolicy | null {
     return this.cachedPolicy;
   }
+
+  /**
+   * Get delivery statistics of events sent to the control server
+   */
+  getEventStats(): TransportStats {
+    return {
+      sent: this.eventsSent,
+      dropped: this.eventsDropped,
+      errors: this.eventErrors,
+      queued: this.eventQueue.length,
+      ...(this.eventSpool && {
+        spooled: this.eventSpool.depth,
+        spoolBytes: this.eventSpool.bytes,
+        spoolDropped: this.eventSpool.dropped,
+      }),
+    };
+  }
+
+  /**
+   * Release the throttle capacity reserved for a request that will report
+   * no metric event under its span_id (e.g. served by another provider)
+   */
+  releaseAdmission(spanId: string): void {
+    for (const throttle of this.cachedPolicy?.throttles ?? []) {
+      if (throttle.tokens_per_minute || throttle.max_concurrent) {
+        this.getThrottleLimiter(throttle).release(throttle, 0, spanId);
+      }
+    }
+  }
+
+  /**
+   * Models to try, in order, after a call failed with `trigger`.
+   * The first fallback rule matching the context, provider and model wins.
+   */
+  getFallbackChain(request: ControlRequest, trigger: FallbackTrigger): FallbackTarget[] {
+    const contextId = request.context_id ?? this.options.getContextId?.();
+    const rule = this.cachedPolicy?.fallbacks?.find(
+      (fallback) =>
+        (!fallback.triggers || fallback.triggers.includes(trigger)) &&
+        this.matchesBlockRule({ ...request, context_id: contextId }, fallback)
+    );
+    return rule?.chain ?? [];
+  }
 }
 
 /**
@@ -0,0 +1,365 @@
+/**
+ * Local control policies - load, validate and watch policy files
+ *
+ * Lets a ControlAgent enforce a ControlPolicy without a control server:
+ * the policy comes from a JSON or YAML file (hot-reloaded on change) or
+ * from an in-memory object.
+ */
+
+import { readFile } from "fs/promises";
+import { unwatchFile, watchFile, type Stats } from "fs";
+import { extname } from "path";
+import { logger } from "./logging.js";
+import { isValidTimeZone } from "./budget-period.js";
+import type { ControlPolicy } from "./control-types.js";
+
+/**
+ * Thrown when a policy does not match the ControlPolicy schema
+ */
+export class PolicyValidationError extends Error {
+  constructor(
+    /** One message per problem, prefixed with the field path */
+    public readonly errors: string[],
+    /** File the policy was loaded from (if any) */
+    public readonly source?: string
+  ) {
+    super(
+      `Invalid control policy${source ? ` in ${source}` : ""}:\n` +
+        errors.map((e) => `  - ${e}`).join("\n")
+    );
+    this.name = "PolicyValidationError";
+  }
+}
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+/**
+ * Expected type of a policy field: a primitive, a string list, a nested
+ * object, an IANA time zone name, or the list of allowed string values
+ */
+type FieldType = "string" | "number" | "boolean" | "string[]" | "object" | "timezone" | readonly string[];
+
+interface RuleSchema {
+  required: string[];
+  fields: Record<string, FieldType>;
+  /** Checks of nested values the field table can't express */
+  check?: (path: string, rule: Record<string, unknown>) => string[];
+}
+
+const BUDGET_SCHEMA: RuleSchema = {
+  required: ["id", "name", "type", "limit", "limitAction"],
+  fields: {
+    id: "string",
+    name: "string",
+    type: ["global", "agent", "tenant", "customer", "feature", "tag"],
+    tags: "string[]",
+    limit: "number",
+    spent: "number",
+    period: ["hour", "day", "week", "month", "rolling_24h"],
+    timezone: "timezone",
+    limitAction: ["kill", "throttle", "degrade"],
+    degradeToModel: "string",
+    degradeToProvider: "string",
+    alerts: "object",
+    notifications: "object",
+    context_id: "string",
+  },
+};
+
+const THROTTLE_SCHEMA: RuleSchema = {
+  required: [],
+  fields: {
+    context_id: "string",
+    provider: "string",
+    requests_per_minute: "number",
+    tokens_per_minute: "number",
+    max_concurrent: "number",
+    delay_ms: "number",
+  },
+};
+
+const BLOCK_SCHEMA: RuleSchema = {
+  required: ["reason"],
+  fields: {
+    context_id: "string",
+    provider: "string",
+    model_pattern: "string",
+    reason: "string",
+  },
+};
+
+const DEGRADE_SCHEMA: RuleSchema = {
+  required: ["provider", "from_model", "to_model", "trigger"],
+  fields: {
+    provider: "string",
+    from_model: "string",
+    to_model: "string",
+    to_provider: "string",
+    trigger: ["budget_threshold", "rate_limit", "always", "budget_exceeded"],
+    threshold_percent: "number",
+    context_id: "string",
+  },
+};
+
+const ALERT_SCHEMA: RuleSchema = {
+  required: ["trigger", "level", "message"],
+  fields: {
+    context_id: "string",
+    provider: "string",
+    model_pattern: "string",
+    trigger: ["budget_threshold", "model_usage", "always"],
+    threshold_percent: "number",
+    level: ["info", "warning", "critical"],
+    message: "string",
+  },
+};
+
+const FALLBACK_TRIGGERS = ["server_error", "overloaded", "timeout", "content_filter"];
+
+const FALLBACK_SCHEMA: RuleSchema = {
+  required: ["provider", "chain"],
+  fields: {
+    context_id: "string",
+    provider: "string",
+    model_pattern: "string",
+    triggers: "string[]",
+    chain: "object",
+  },
+  check: (path, rule) => {
+    const errors: string[] = [];
+    if (Array.isArray(rule.triggers)) {
+      for (const trigger of rule.triggers) {
+        if (!FALLBACK_TRIGGERS.includes(trigger as string)) {
+          errors.push(`${path}.triggers: "${trigger}" must be one of ${FALLBACK_TRIGGERS.map((t) => `"${t}"`).join(", ")}`);
+        }
+      }
+    }
+    if (rule.chain !== undefined && (!Array.isArray(rule.chain) || rule.chain.length === 0)) {
+      errors.push(`${path}.chain must be a non-empty list`);
+    } else if (Array.isArray(rule.chain)) {
+      rule.chain.forEach((hop: unknown, index: number) => {
+        const target = hop as Record<string, unknown> | null;
+        if (typeof target?.model !== "string") {
+          errors.push(`${path}.chain[${index}].model must be a string`);
+        }
+        if (target?.provider !== undefined && typeof target.provider !== "string") {
+          errors.push(`${path}.chain[${index}].provider must be a string`);
+        }
+      });
+    }
+    return errors;
+  },
+};
+
+/**
+ * Rule lists of a ControlPolicy and the schema of their entries
+ */
+const POLICY_SECTIONS: Record<string, RuleSchema> = {
+  budgets: BUDGET_SCHEMA,
+  throttles: THROTTLE_SCHEMA,
+  blocks: BLOCK_SCHEMA,
+  degradations: DEGRADE_SCHEMA,
+  alerts: ALERT_SCHEMA,
+  fallbacks: FALLBACK_SCHEMA,
+};
+
+/**
+ * Check one value against its expected type; returns an error or null
+ */
+function checkField(path: string, value: unknown, type: FieldType): string | null {
+  if (Array.isArray(type)) {
+    return typeof value === "string" && type.includes(value)
+      ? null
+      : `${path} must be one of ${type.map((t) => `"${t}"`).join(", ")}`;
+  }
+
+  switch (type) {
+    case "string[]":
+      return Array.isArray(value) && value.every((v) => typeof v === "string")
+        ? null
+        : `${path} must be a list of strings`;
+    case "object":
+      return value !== null && typeof value === "object" ? null : `${path} must be an object or list`;
+    case "number":
+      return typeof value === "number" && Number.isFinite(value) ? null : `${path} must be a number`;
+    case "timezone":
+      return typeof value === "string" && isValidTimeZone(value)
+        ? null
+        : `${path} must be an IANA time zone (e.g. "Europe/Berlin")`;
+    default:
+      return typeof value === type ? null : `${path} must be a ${type}`;
+  }
+}
+
+/**
+ * Check a ControlPolicy-shaped value and fill local defaults.
+ *
+ * Unknown fields are reported so typos don't silently disable a rule.
+ * `version` defaults to "local", `updated_at` to the current time, and
+ * budget `spent`, `alerts` and `notifications` to empty values.
+ *
+ * @throws PolicyValidationError listing every problem found
+ */
+export function validateControlPolicy(value: unknown, source?: string): ControlPolicy {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new PolicyValidationError(["policy must be an object"], source);
+  }
+
+  const raw = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const key of Object.keys(raw)) {
+    if (key !== "version" && key !== "updated_at" && !(key in POLICY_SECTIONS)) {
+      errors.push(`unknown field "${key}"`);
+    }
+  }
+  if (raw.version !== undefined && typeof raw.version !== "string") {
+    errors.push("version must be a string");
+  }
+  if (raw.updated_at !== undefined && typeof raw.updated_at !== "string") {
+    errors.push("updated_at must be a string");
+  }
+
+  const policy: ControlPolicy = {
+    version: (raw.version as string | undefined) ?? "local",
+    updated_at: (raw.updated_at as string | undefined) ?? new Date().toISOString(),
+  };
+
+  for (const [section, schema] of Object.entries(POLICY_SECTIONS)) {
+    const rules = raw[section];
+    if (rules === undefined) continue;
+    if (!Array.isArray(rules)) {
+      errors.push(`${section} must be a list`);
+      continue;
+    }
+
+    rules.forEach((rule, index) => {
+      const path = `${section}[${index}]`;
+      if (!rule || typeof rule !== "object" || Array.isArray(rule)) {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+
+      const entry = rule as Record<string, unknown>;
+      for (const field of schema.required) {
+        if (entry[field] === undefined) errors.push(`${path}.${field} is required`);
+      }
+      for (const [field, fieldValue] of Object.entries(entry)) {
+        const type = schema.fields[field];
+        if (!type) {
+          errors.push(`${path}: unknown field "${field}"`);
+        } else if (fieldValue !== undefined) {
+          const error = checkField(`${path}.${field}`, fieldValue, type);
+          if (error) errors.push(error);
+        }
+      }
+      if (schema.check) errors.push(...schema.check(path, entry));
+    });
+
+    (policy as unknown as Record<string, unknown>)[section] = rules.map((rule) => ({ ...rule }));
+  }
+
+  if (errors.length > 0) {
+    throw new PolicyValidationError(errors, source);
+  }
+
+  for (const budget of policy.budgets ?? []) {
+    budget.spent ??= 0;
+    budget.alerts ??= [];
+    budget.notifications ??= { inApp: false, email: false, emailRecipients: [], webhook: false };
+  }
+
+  return policy;
+}
+
+// =============================================================================
+// Files
+// =============================================================================
+
+/**
+ * Parse YAML with whichever YAML package is installed ("yaml" or "js-yaml")
+ */
+async function parseYaml(text: string, path: string): Promise<unknown> {
+  try {
+    // @ts-ignore - optional dependency
+    const yaml = await import("yaml");
+    return (yaml.parse ?? yaml.default.parse)(text);
+  } catch (error) {
+    if (!isModuleNotFound(error)) throw error;
+  }
+
+  try {
+    // @ts-ignore - optional dependency
+    const jsYaml = await import("js-yaml");
+    return (jsYaml.load ?? jsYaml.default.load)(text);
+  } catch (error) {
+    if (!isModuleNotFound(error)) throw error;
+  }
+
+  throw new Error(`Cannot read ${path}: install the "yaml" package to load YAML policy files`);
+}
+
+function isModuleNotFound(error: unknown): boolean {
+  const code = (error as { code?: string } | null)?.code;
+  return code === "ERR_MODULE_NOT_FOUND" || code === "MODULE_NOT_FOUND";
+}
+
+/**
+ * Load and validate a policy file (.json, .yaml or .yml)
+ *
+ * @throws PolicyValidationError when the file does not match the schema
+ */
+export async function loadPolicyFile(path: string): Promise<ControlPolicy> {
+  const text = await readFile(path, "utf8");
+  const ext = extname(path).toLowerCase();
+
+  let parsed: unknown;
+  try {
+    parsed = ext === ".yaml" || ext === ".yml" ? await parseYaml(text, path) : JSON.parse(text);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new PolicyValidationError([`not valid JSON: ${error.message}`], path);
+    }
+    throw error;
+  }
+
+  return validateControlPolicy(parsed, path);
+}
+
+/**
+ * Watch a policy file and call `onChange` with each valid new version.
+ * Invalid edits are logged and ignored, so the last good policy stays active.
+ * The watcher doesn't keep the process alive.
+ *
+ * @returns a function that stops watching
+ */
+export function watchPolicyFile(
+  path: string,
+  onChange: (policy: ControlPolicy) => void,
+  intervalMs: number = 1000
+): () => void {
+  // Stat polling survives editors that save by replacing the file
+  const listener = (current: Stats, previous: Stats) => {
+    if (current.mtimeMs === previous.mtimeMs && current.size === previous.size) return;
+    if (current.nlink === 0) {
+      logger.warn(`Policy file ${path} was removed; keeping the current policy`);
+      return;
+    }
+
+    loadPolicyFile(path).then(
+      (policy) => {
+        logger.info(`Policy reloaded from ${path} (version: ${policy.version})`);
+        onChange(policy);
+      },
+      (error) => {
+        logger.warn(`Ignoring invalid policy file change: ${error instanceof Error ? error.message : error}`);
+      }
+    );
+  };
+
+  // Not persistent: watching must not keep the process alive
+  watchFile(path, { interval: intervalMs, persistent: false }, listener);
+  return () => unwatchFile(path, listener);
+}
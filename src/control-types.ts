@@ -6,6 +6,9 @@
  */
 
 import type { MetricEvent } from "./types.js";
+import type { PricingRegistry } from "./pricing.js";
+import type { BudgetStore } from "./budget-store.js";
+import type { SpoolOptions } from "./spool.js";
 
 // =============================================================================
 // Control Actions
@@ -150,6 +153,14 @@ export type BudgetType = "global" | "agent" | "tenant" | "customer" | "feature"
  */
 export type LimitAction = "kill" | "throttle" | "degrade";
 
+/**
+ * Budget period - when spend resets
+ * - hour / day / week / month: resets at the start of each period in the
+ *   budget's time zone (weeks start on Monday)
+ * - rolling_24h: never resets; counts spend of the last 24 hours
+ */
+export type BudgetPeriod = "hour" | "day" | "week" | "month" | "rolling_24h";
+
 /**
  * Budget alert configuration
  */
@@ -188,8 +199,12 @@ export interface BudgetRule {
   tags?: string[];
   /** Budget limit in USD */
   limit: number;
-  /** Current spend in USD */
+  /** Current spend in USD (within the current period, if any) */
   spent: number;
+  /** Reset period (omit for a lifetime budget) */
+  period?: BudgetPeriod;
+  /** IANA time zone for period boundaries, e.g. "America/New_York" (default: UTC) */
+  timezone?: string;
   /** Action to take when budget is exceeded */
   limitAction: LimitAction;
   /** If limitAction is "degrade", switch to this model */
@@ -206,14 +221,24 @@ export interface BudgetRule {
 
 /**
  * Throttle rule - rate limiting
+ *
+ * With any of requests_per_minute, tokens_per_minute or max_concurrent set,
+ * requests wait until capacity frees up; delay_ms only applies on its own.
  */
 export interface ThrottleRule {
   /** Context ID this rule applies to (omit for global) */
   context_id?: string;
   /** Provider this rule applies to (omit for all) */
   provider?: string;
-  /** Maximum requests per minute */
+  /** Maximum requests per minute (sliding window) */
   requests_per_minute?: number;
+  /**
+   * Maximum tokens per minute (token bucket). Requests reserve their
+   * estimated_input_tokens; the actual total is settled when they complete.
+   */
+  tokens_per_minute?: number;
+  /** Maximum requests in flight at once */
+  max_concurrent?: number;
   /** Fixed delay to apply to each request (ms) */
   delay_ms?: number;
 }
@@ -236,12 +261,17 @@ export interface BlockRule {
  * Degrade rule - automatic model downgrade
  */
 export interface DegradeRule {
-  /** Provider this rule applies to (required - no cross-vendor degradation) */
+  /** Provider this rule applies to */
   provider: string;
   /** Model to downgrade from */
   from_model: string;
   /** Model to downgrade to */
   to_model: string;
+  /**
+   * Provider of to_model (default: provider). A different provider needs a
+   * client for it in MeterOptions.degradeClients.
+   */
+  to_provider?: string;
   /** When to trigger the downgrade */
   trigger: "budget_threshold" | "rate_limit" | "always" | "budget_exceeded";
   /** For budget_threshold: percentage at which to trigger (0-100) */
@@ -270,6 +300,41 @@ export interface AlertRule {
   message: string;
 }
 
+/**
+ * Provider failures that can trigger a fallback:
+ * - server_error: 5xx responses and connection failures
+ * - overloaded: 529 / overloaded_error
+ * - timeout: request timeouts (408 or client-side)
+ * - content_filter: the provider refused the content
+ */
+export type FallbackTrigger = "server_error" | "overloaded" | "timeout" | "content_filter";
+
+/**
+ * One hop of a fallback chain
+ */
+export interface FallbackTarget {
+  /** Provider to call (default: the provider of the failed call) */
+  provider?: string;
+  /** Model to call */
+  model: string;
+}
+
+/**
+ * Fallback rule - retry a failed call on other models or providers
+ */
+export interface FallbackRule {
+  /** Context ID this rule applies to (omit for all) */
+  context_id?: string;
+  /** Provider of the failed call */
+  provider: string;
+  /** Model pattern of the failed call (e.g., "gpt-4o*"; omit for all models) */
+  model_pattern?: string;
+  /** Failures that trigger the fallback (default: all) */
+  triggers?: FallbackTrigger[];
+  /** Targets tried in order until one succeeds */
+  chain: FallbackTarget[];
+}
+
 /**
  * Complete control policy from server
  */
@@ -288,6 +353,8 @@ export interface ControlPolicy {
   degradations?: DegradeRule[];
   /** Alert rules */
   alerts?: AlertRule[];
+  /** Fallback rules */
+  fallbacks?: FallbackRule[];
 }
 
 // =============================================================================
@@ -308,6 +375,12 @@ export interface ControlRequest {
   estimated_cost?: number;
   /** Estimated input tokens */
   estimated_input_tokens?: number;
+  /**
+   * Span ID of the request. Throttle capacity reserved for it is released
+   * when the metric event with this span_id is reported; without one it is
+   * held until it times out (5 minutes).
+   */
+  span_id?: string;
   /** Custom metadata */
   metadata?: Record<string, unknown>;
 }
@@ -340,10 +413,11 @@ export interface AlertEvent {
  * Options for creating a control agent
  */
 export interface ControlAgentOptions {
-  /** Server URL (wss:// for WebSocket, https:// for HTTP-only) */
-  serverUrl: string;
-  /** API key for authentication */
-  apiKey: string;
+  /** Server URL (wss:// for WebSocket, https:// for HTTP-only). Required unless a local policy is set */
+  serverUrl?: string;
+  /** API key for authentication. Required unless a local policy is set */
+  apiKey?: string;
+
   /** Polling interval for HTTP fallback (ms), default: 30000 */
   pollingIntervalMs?: number;
   /** Heartbeat interval (ms), default: 10000 */
@@ -362,6 +436,50 @@ export interface ControlAgentOptions {
    * Use this for logging, notifications, or monitoring.
    */
   onAlert?: (alert: AlertEvent) => void | Promise<void>;
+  /**
+   * Pricing registry used to estimate spend for budgets.
+   * Prices fetched from the server are loaded into it.
+   * Default: the shared registry (see getDefaultPricingRegistry)
+   */
+  pricingRegistry?: PricingRegistry;
+  /**
+   * Where budget spend is persisted. Use createFileBudgetStore() to keep
+   * local enforcement across restarts and rolling deploys.
+   * Default: in-memory (spend is lost on exit)
+   */
+  budgetStore?: BudgetStore;
+  /**
+   * Write-ahead spool for events waiting to be sent to the control server.
+   * Queued events are written to disk and deleted once delivered; events
+   * left by a crash or restart are replayed on connect(), and HTTP batches
+   * that fail are kept instead of dropped.
+   * Default: none (queued events are kept in memory only)
+   */
+  eventSpool?: SpoolOptions;
+
+  // ==========================================================================
+  // Adaptive Rate Limiting Options
+  // ==========================================================================
+
+  /**
+   * Track provider rate-limit headers from metric events and delay requests
+   * (or degrade them via a "rate_limit" degradation rule) before the
+   * provider starts returning 429s.
+   * Default: false
+   */
+  adaptiveRateLimiting?: boolean;
+
+  /**
+   * Keep this percentage of each provider limit in reserve.
+   * Default: 5
+   */
+  rateLimitHeadroomPercent?: number;
+
+  /**
+   * Longest delay (ms) adaptive rate limiting asks a request to wait.
+   * Default: 30000
+   */
+  maxRateLimitDelayMs?: number;
 
   // ==========================================================================
   // Hybrid Enforcement Options
@@ -428,6 +546,29 @@ export interface ControlAgentOptions {
    * Default: 10 (allowing up to 110% of budget)
    */
   maxExpectedOverspendPercent?: number;
+
+  // ==========================================================================
+  // Local Policy Options (no control server)
+  // ==========================================================================
+
+  /**
+   * In-memory policy to enforce locally. When set (or policyFile), the agent
+   * runs offline: no server connection, heartbeat or event upload.
+   */
+  policy?: ControlPolicy;
+
+  /**
+   * Path to a JSON or YAML (.yaml/.yml) policy file to enforce locally.
+   * Validated against the ControlPolicy schema on connect().
+   * YAML files need the "yaml" (or "js-yaml") package installed.
+   */
+  policyFile?: string;
+
+  /**
+   * Reload policyFile when it changes. Invalid edits are logged and ignored.
+   * Default: true
+   */
+  watchPolicyFile?: boolean;
 }
 
 /**
@@ -518,4 +659,16 @@ export interface IControlAgent {
    * Get current cached policy
    */
   getPolicy(): ControlPolicy | null;
+
+  /**
+   * Models to try, in order, after a call failed with `trigger`
+   * (empty if no fallback rule matches)
+   */
+  getFallbackChain?(request: ControlRequest, trigger: FallbackTrigger): FallbackTarget[];
+
+  /**
+   * Release the throttle capacity reserved for a request that will report
+   * no metric event under its span_id (e.g. served by another provider)
+   */
+  releaseAdmission?(spanId: string): void;
 }
@@ -1,5 +1,6 @@
 import { appendFileSync, writeFileSync, existsSync } from "fs";
 import { appendFile } from "fs/promises";
+import { registerShutdownHandler } from "./shutdown.js";
 import type { MetricEvent, MetricEmitter } from "./types.js";
 
 /**
@@ -39,9 +40,16 @@ export function createConsoleEmitter(
       if (event.cached_tokens > 0) {
         console.log(`  cached: ${event.cached_tokens}`);
       }
+      if (event.cache_write_tokens) {
+        console.log(`  cache write: ${event.cache_write_tokens}`);
+      }
       if (event.reasoning_tokens > 0) {
         console.log(`  reasoning: ${event.reasoning_tokens}`);
       }
+      if (event.total_cost !== undefined) {
+        const match = event.pricing_match && event.pricing_match !== "exact" ? ` (${event.pricing_match})` : "";
+        console.log(`  cost: $${event.total_cost.toFixed(6)}${match}`);
+      }
       if (event.tool_call_count && event.tool_call_count > 0) {
         console.log(`  tools: ${event.tool_call_count} calls (${event.tool_names})`);
       }
@@ -90,12 +98,23 @@ export function createBatchEmitter(
     }
   };
 
-  emitter.flush = doFlush;
-  emitter.stop = () => {
+  const stopTimer = () => {
     if (timer) {
       clearInterval(timer);
       timer = null;
     }
+  };
+
+  // shutdown() waits for the final flush
+  const unregisterShutdown = registerShutdownHandler("batch emitter", () => {
+    stopTimer();
+    return doFlush();
+  });
+
+  emitter.flush = doFlush;
+  emitter.stop = () => {
+    stopTimer();
+    unregisterShutdown();
     doFlush().catch(console.error);
   };
 
@@ -204,11 +223,14 @@ export interface JsonFileEmitterOptions {
  * });
  *
  * instrument({ emitMetric: emitter });
+ *
+ * // When done with the emitter (e.g. at the end of a job)
+ * await emitter.stop();
  * ```
  */
 export function createJsonFileEmitter(
   options: JsonFileEmitterOptions
-): MetricEmitter & { flush: () => Promise<void> } {
+): MetricEmitter & { flush: () => Promise<void>; stop: () => Promise<void> } {
   const {
     filePath,
     format = "jsonl",
@@ -263,5 +285,14 @@ export function createJsonFileEmitter(
     }
   };
 
+  // Buffered events are only written by flush()
+  const unregisterShutdown =
+    format === "json" ? registerShutdownHandler(`JSON file emitter ${filePath}`, emitter.flush) : () => {};
+
+  emitter.stop = async () => {
+    unregisterShutdown();
+    await emitter.flush();
+  };
+
   return emitter;
 }
@@ -0,0 +1,143 @@
+/**
+ * Fallback chains - retry a failed call on other models or providers
+ *
+ * When a call fails with a provider error (5xx, 529 overloaded, timeout) or
+ * is refused by the content filter, the control policy's fallback rules
+ * name the models to try next. Each hop is a separate metered call whose
+ * event points back to the failed call through parent_span_id.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { logger } from "./logging.js";
+import { callTranslated, canTranslate, type TranslatableProvider } from "./provider-translation.js";
+import type { FallbackTrigger } from "./control-types.js";
+import type { MeterOptions, MetricEvent } from "./types.js";
+
+type Params = Record<string, unknown>;
+
+/**
+ * The fallback hop a call is running as
+ */
+interface FallbackHop {
+  /** Span of the failed call */
+  parentSpanId: string;
+  /** Position in the chain (1 = first fallback) */
+  hop: number;
+  trigger: FallbackTrigger;
+}
+
+const hopStorage = new AsyncLocalStorage<FallbackHop>();
+
+/**
+ * Classify an SDK error as a fallback trigger; null for errors a fallback
+ * can't fix (bad request, auth, cancelled by policy, ...)
+ */
+export function classifyFallbackError(error: unknown): FallbackTrigger | null {
+  if (!error || typeof error !== "object") return null;
+  const e = error as {
+    status?: number;
+    name?: string;
+    code?: string | null;
+    error?: { code?: string; type?: string; error?: { type?: string } };
+  };
+
+  const code = e.code ?? e.error?.code;
+  if (code === "content_filter" || code === "content_policy_violation") return "content_filter";
+  if (e.status === 529 || e.error?.error?.type === "overloaded_error") return "overloaded";
+  if (e.status === 408 || e.name === "APIConnectionTimeoutError") return "timeout";
+  if ((e.status !== undefined && e.status >= 500) || e.name === "APIConnectionError") return "server_error";
+  return null;
+}
+
+/**
+ * Detect a completed response the content filter cut off or refused
+ * (OpenAI finish_reason "content_filter", Anthropic stop_reason "refusal")
+ */
+export function classifyFallbackResponse(response: unknown): FallbackTrigger | null {
+  if (!response || typeof response !== "object") return null;
+  const res = response as { choices?: Array<{ finish_reason?: string }>; stop_reason?: string };
+  if (res.choices?.some((choice) => choice.finish_reason === "content_filter")) return "content_filter";
+  if (res.stop_reason === "refusal") return "content_filter";
+  return null;
+}
+
+/**
+ * Link a metric event of a fallback hop to the failed call
+ * (parent_span_id, metadata.fallback_hop and metadata.fallback_trigger)
+ */
+export function applyFallbackHop(event: MetricEvent): MetricEvent {
+  const hop = hopStorage.getStore();
+  if (hop) {
+    event.parent_span_id = hop.parentSpanId;
+    event.metadata = {
+      ...event.metadata,
+      fallback_hop: String(hop.hop),
+      fallback_trigger: hop.trigger,
+    };
+  }
+  return event;
+}
+
+/**
+ * Bind a function to the fallback hop of the current call. Streamed hops
+ * emit their event when the caller finishes reading, outside the hop's
+ * async context; emitting through the bound function keeps the hop links.
+ */
+export function bindFallbackHop<A extends unknown[], R>(fn: (...args: A) => R): (...args: A) => R {
+  const hop = hopStorage.getStore();
+  return hop ? (...args: A) => hopStorage.run(hop, fn, ...args) : fn;
+}
+
+/**
+ * Try the fallback chain of the control policy for a failed call.
+ * Hops run in order until one succeeds; a hop that fails or is content
+ * filtered moves on to the next. Hops don't start chains of their own.
+ *
+ * @param callSameProvider - Makes a metered call with the failed call's SDK
+ * @returns the first successful result, or null when no rule matches or
+ *   every hop failed (the caller then surfaces the original outcome)
+ */
+export async function runFallbackChain(
+  provider: "openai" | "anthropic",
+  params: Params,
+  trigger: FallbackTrigger,
+  spanId: string,
+  meterOptions: MeterOptions,
+  callSameProvider: (params: Params) => unknown
+): Promise<{ result: unknown } | null> {
+  if (hopStorage.getStore()) return null;
+
+  const model = params.model as string;
+  const chain = meterOptions.controlAgent?.getFallbackChain?.({ provider, model }, trigger) ?? [];
+
+  for (const [index, target] of chain.entries()) {
+    const toProvider = target.provider ?? provider;
+    const hopParams = { ...params, model: target.model };
+
+    if (toProvider !== provider && (!Array.isArray(params.messages) || !canTranslate(provider, toProvider, meterOptions.degradeClients))) {
+      logger.warn(`Skipping fallback to ${toProvider} ${target.model}: request can't be translated or no client in degradeClients`);
+      continue;
+    }
+
+    try {
+      // Each hop is admitted and metered under its own span; the failed call's
+      // event already released the original admission
+      const result = await hopStorage.run({ parentSpanId: spanId, hop: index + 1, trigger }, () =>
+        toProvider === provider
+          ? callSameProvider(hopParams)
+          : callTranslated(provider, hopParams, toProvider as TranslatableProvider, model, meterOptions.degradeClients)
+      );
+
+      if (classifyFallbackResponse(result)) {
+        logger.warn(`Fallback ${toProvider} ${target.model} was content filtered`);
+        continue;
+      }
+      logger.info(`${provider} ${model} failed (${trigger}); served by fallback ${toProvider} ${target.model}`);
+      return { result };
+    } catch (error) {
+      logger.warn(`Fallback ${toProvider} ${target.model} failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return null;
+}
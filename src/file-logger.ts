@@ -139,6 +139,7 @@ export class MetricFileLogger {
         total_tokens: event.total_tokens,
         reasoning_tokens: event.reasoning_tokens,
         cached_tokens: event.cached_tokens,
+        cache_write_tokens: event.cache_write_tokens ?? 0,
       };
     }
 
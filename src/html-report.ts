@@ -14,6 +14,9 @@ import type {
  * Generate complete HTML report from analytics JSON
  */
 export function generateHTMLReport(data: AnalyticsJSON): string {
+  // TTFT is only reported for streamed requests
+  const hasTtft = data.summary.avg_ttft_ms > 0;
+
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -576,7 +579,7 @@ export function generateHTMLReport(data: AnalyticsJSON): string {
       </div>
       <div class="grid-2">
         <div class="panel">
-          <div class="panel-header">Latency Distribution</div>
+          <div class="panel-header">${hasTtft ? "Latency & Time to First Token" : "Latency Distribution"}</div>
           <div class="panel-body">
             <div class="chart-container">
               <canvas id="latencyChart"></canvas>
@@ -632,15 +635,20 @@ export function generateHTMLReport(data: AnalyticsJSON): string {
         datasets: [{
           label: 'Latency (ms)',
           data: [${data.summary.p50_latency_ms}, ${data.summary.p95_latency_ms}, ${data.summary.p99_latency_ms}, ${data.summary.avg_latency_ms}],
-          backgroundColor: ['#2563eb', '#16a34a', '#ca8a04', '#7c3aed'],
+          backgroundColor: ${hasTtft ? "'#2563eb'" : "['#2563eb', '#16a34a', '#ca8a04', '#7c3aed']"},
           borderRadius: 4,
-        }]
+        }${hasTtft ? `, {
+          label: 'Time to First Token (ms)',
+          data: [${data.summary.p50_ttft_ms}, ${data.summary.p95_ttft_ms}, ${data.summary.p99_ttft_ms}, ${data.summary.avg_ttft_ms}],
+          backgroundColor: '#16a34a',
+          borderRadius: 4,
+        }` : ""}]
       },
       options: {
         responsive: true,
         maintainAspectRatio: false,
         plugins: {
-          legend: { display: false }
+          legend: { display: ${hasTtft} }
         },
         scales: {
           y: {
@@ -920,7 +928,7 @@ function generateConversationsSection(conversations: ConversationPattern[]): str
                   <td>${c.summary.avg_latency.toFixed(0)}ms</td>
                   <td>
                     <div class="progress-bar" style="width: 100px;">
-                      <div class="fill" style="width: ${Math.min(100, (c.summary.cache_savings / c.summary.total_cost) * 100 * 2)}%;"></div>
+                      <div class="fill" style="width: ${Math.max(0, Math.min(100, (c.summary.cache_savings / c.summary.total_cost) * 100 * 2))}%;"></div>
                     </div>
                   </td>
                 </tr>
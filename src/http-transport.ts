@@ -5,6 +5,12 @@
  * to your API, which handles storage, aggregation, and multi-tenancy.
  */
 
+import { Agent as HttpsAgent, request as httpsRequest } from "https";
+import { promisify } from "util";
+import * as zlib from "zlib";
+import { logger } from "./logging.js";
+import { registerShutdownHandler } from "./shutdown.js";
+import { DiskSpool, type SpoolOptions, type SpoolRef } from "./spool.js";
 import type { MetricEvent, MetricEmitter } from "./types.js";
 
 /**
@@ -15,12 +21,18 @@ export type QueueOverflowHandler = (droppedCount: number) => void;
 /**
  * Callback when a batch send fails after all retries
  */
-export type SendErrorHandler = (
+export type SendErrorHandler<T = MetricEvent> = (
   error: Error,
-  batch: MetricEvent[],
+  batch: T[],
   stats: TransportStats
 ) => void;
 
+/**
+ * Circuit breaker state: closed (sending), open (not sending until the
+ * reset timeout passes) or half-open (one trial batch decides)
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
 /**
  * Transport statistics for observability
  */
@@ -33,17 +45,55 @@ export interface TransportStats {
   errors: number;
   /** Current queue size */
   queued: number;
+  /** Events in the spool that were not acknowledged yet (spool only) */
+  spooled?: number;
+  /** Size of the spool segment files in bytes (spool only) */
+  spoolBytes?: number;
+  /** Unsent events deleted because the spool reached maxBytes (spool only) */
+  spoolDropped?: number;
+  /** Circuit breaker state */
+  circuitState?: CircuitState;
+  /** Current batch size (adapts to latency and 413 responses) */
+  batchSize?: number;
+}
+
+/**
+ * A request about to be sent, as passed to the authenticate hook
+ */
+export interface HttpTransportRequest {
+  url: string;
+  method: "POST";
+  /** Request headers; the hook may add, change or remove them */
+  headers: Record<string, string>;
+  /** Encoded (and compressed, if over the threshold) body, as sent */
+  body: Buffer;
+}
+
+/**
+ * Client certificate and trust settings for HTTPS endpoints (mTLS)
+ */
+export interface HttpTransportTlsOptions {
+  /** Client certificate chain (PEM) */
+  cert?: string | Buffer;
+  /** Client private key (PEM) */
+  key?: string | Buffer;
+  /** Passphrase of the private key */
+  passphrase?: string;
+  /** CA certificates to trust instead of the default ones (PEM) */
+  ca?: string | Buffer | Array<string | Buffer>;
+  /** Reject servers whose certificate isn't trusted. Default: true */
+  rejectUnauthorized?: boolean;
 }
 
 /**
  * Options for the HTTP transport
  */
-export interface HttpTransportOptions {
+export interface HttpTransportOptions<T = MetricEvent> {
   /** API endpoint URL */
   apiUrl: string;
   /** API key for authentication (sent as Bearer token) */
   apiKey?: string;
-  /** Number of events to batch before sending (default: 50) */
+  /** Number of events to batch before sending; the most when batching adapts (default: 50) */
   batchSize?: number;
   /** Milliseconds between automatic flushes (default: 5000) */
   flushInterval?: number;
@@ -58,7 +108,98 @@ export interface HttpTransportOptions {
   /** Callback when events are dropped due to queue overflow */
   onQueueOverflow?: QueueOverflowHandler;
   /** Callback when a batch fails to send */
-  onSendError?: SendErrorHandler;
+  onSendError?: SendErrorHandler<T>;
+  /**
+   * Build the request body of a batch.
+   * Default: `{ metrics: batch, timestamp }`
+   */
+  formatPayload?: (batch: T[]) => unknown;
+  /**
+   * Body encoding. "json" sends formatPayload's result; "ndjson" sends one
+   * event per line (formatPayload is not used). Default: "json"
+   */
+  encoding?: "json" | "ndjson";
+  /**
+   * Compress request bodies (Content-Encoding). zstd needs Node.js 22.15
+   * or later. Default: "none"
+   */
+  compression?: "none" | "gzip" | "zstd";
+  /** Bodies smaller than this many bytes are sent uncompressed (default: 1024) */
+  compressionThreshold?: number;
+  /**
+   * Called before each attempt to send a request, after the body is
+   * encoded. Set auth headers here: a signature of the body (see
+   * createHmacAuthenticator) or a token from your own source.
+   */
+  authenticate?: (request: HttpTransportRequest) => void | Promise<void>;
+  /** Client certificate for mTLS (HTTPS endpoints only) */
+  tls?: HttpTransportTlsOptions;
+  /**
+   * Stop sending after this many batches in a row failed, and try one batch
+   * again after resetTimeoutMs. Events stay queued meanwhile.
+   * false disables the breaker. Default: { failureThreshold: 5, resetTimeoutMs: 30000 }
+   */
+  circuitBreaker?: { failureThreshold?: number; resetTimeoutMs?: number } | false;
+  /**
+   * Adapt the batch size to the endpoint: halve it when a batch takes longer
+   * than targetLatencyMs, grow it back toward batchSize when batches are fast.
+   * (Batches rejected with 413 Payload Too Large are always split.)
+   * false keeps batchSize. Default: { targetLatencyMs: 2000, minBatchSize: 1 }
+   */
+  adaptiveBatching?: { targetLatencyMs?: number; minBatchSize?: number } | false;
+  /**
+   * Write-ahead spool directory. Events are written to disk before they are
+   * queued and deleted once sent; unsent events are replayed on startup, and
+   * batches that fail are kept for the next flush instead of being dropped.
+   */
+  spool?: SpoolOptions;
+}
+
+/**
+ * Outcome of sending a batch
+ */
+type SendResult =
+  | { ok: true; latencyMs: number }
+  | {
+      ok: false;
+      error: Error;
+      /** A later attempt could succeed (not after a 4xx response) */
+      retryable: boolean;
+      /** 413 Payload Too Large: a smaller batch could succeed */
+      tooLarge?: boolean;
+      /** The server asked to retry later (Retry-After) */
+      deferred?: boolean;
+    };
+
+/**
+ * Milliseconds to wait from a Retry-After header (delay-seconds or HTTP date)
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Compression function of a Content-Encoding, or null for none
+ */
+function compressorFor(compression: "none" | "gzip" | "zstd"): ((body: Buffer) => Promise<Buffer>) | null {
+  switch (compression) {
+    case "none":
+      return null;
+    case "gzip":
+      return promisify(zlib.gzip);
+    case "zstd": {
+      // zlib.zstdCompress was added in Node.js 22.15
+      const zstdCompress = (zlib as unknown as { zstdCompress?: typeof zlib.gzip }).zstdCompress;
+      if (!zstdCompress) {
+        throw new Error(`HttpTransport: zstd compression needs Node.js 22.15 or later (running ${process.version})`);
+      }
+      return promisify(zstdCompress);
+    }
+  }
 }
 
 /**
@@ -67,8 +208,12 @@ export interface HttpTransportOptions {
  * Features:
  * - Batched sending for efficiency
  * - Automatic periodic flushing
- * - Retry with exponential backoff
+ * - Retry with exponential backoff, honoring Retry-After
+ * - Circuit breaker that pauses sending while the endpoint is down
+ * - Batch size that adapts to latency and 413 responses
  * - Queue overflow protection
+ * - Optional disk spool that survives crashes and restarts
+ * - JSON or NDJSON bodies, gzip/zstd compression, pluggable auth and mTLS
  * - Observability via stats
  *
  * @example
@@ -87,7 +232,7 @@ export interface HttpTransportOptions {
  * transport.stop();
  * ```
  */
-export class HttpTransport {
+export class HttpTransport<T = MetricEvent> {
   private readonly apiUrl: string;
   private readonly apiKey?: string;
   private readonly batchSize: number;
@@ -97,18 +242,42 @@ export class HttpTransport {
   private readonly maxQueueSize: number;
   private readonly extraHeaders: Record<string, string>;
   private readonly onQueueOverflow?: QueueOverflowHandler;
-  private readonly onSendError?: SendErrorHandler;
-
-  private queue: MetricEvent[] = [];
+  private readonly onSendError?: SendErrorHandler<T>;
+  private readonly formatPayload: (batch: T[]) => unknown;
+  private readonly encoding: "json" | "ndjson";
+  private readonly compress: ((body: Buffer) => Promise<Buffer>) | null;
+  private readonly compression: "none" | "gzip" | "zstd";
+  private readonly compressionThreshold: number;
+  private readonly authenticate?: (request: HttpTransportRequest) => void | Promise<void>;
+  private readonly tlsAgent: HttpsAgent | null;
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private readonly targetLatencyMs: number | null;
+  private readonly minBatchSize: number;
+  private readonly spool: DiskSpool<T> | null;
+
+  private queue: T[] = [];
+  // Spool position of each queued event (parallel to queue)
+  private queueRefs: Array<SpoolRef | undefined> = [];
   private flushTimer: ReturnType<typeof setInterval> | null = null;
   private isStopped = false;
+  private readonly unregisterShutdown: () => void;
+
+  // Circuit breaker and adaptive batching
+  private circuitState: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  // No sends before this time (circuit open, or Retry-After)
+  private pausedUntil = 0;
+  private currentBatchSize: number;
+  // Smallest batch size rejected with 413; growth stays below it
+  private tooLargeBatchSize = Infinity;
 
   // Stats tracking
   private sentCount = 0;
   private droppedCount = 0;
   private errorCount = 0;
 
-  constructor(options: HttpTransportOptions) {
+  constructor(options: HttpTransportOptions<T>) {
     this.apiUrl = options.apiUrl;
     this.apiKey = options.apiKey;
     this.batchSize = options.batchSize ?? 50;
@@ -119,8 +288,47 @@ export class HttpTransport {
     this.extraHeaders = options.headers ?? {};
     this.onQueueOverflow = options.onQueueOverflow;
     this.onSendError = options.onSendError;
+    this.formatPayload = options.formatPayload ?? ((batch) => ({ metrics: batch, timestamp: Date.now() }));
+    this.encoding = options.encoding ?? "json";
+    this.compression = options.compression ?? "none";
+    this.compress = compressorFor(this.compression);
+    this.compressionThreshold = options.compressionThreshold ?? 1024;
+    this.authenticate = options.authenticate;
+
+    if (options.tls && !this.apiUrl.startsWith("https:")) {
+      throw new Error(`HttpTransport: tls options need an https apiUrl, got ${this.apiUrl}`);
+    }
+    this.tlsAgent = options.tls ? new HttpsAgent({ ...options.tls, keepAlive: true }) : null;
+
+    const breaker = options.circuitBreaker ?? {};
+    this.failureThreshold = breaker === false ? Infinity : breaker.failureThreshold ?? 5;
+    this.resetTimeoutMs = breaker === false ? 0 : breaker.resetTimeoutMs ?? 30000;
+    const adaptive = options.adaptiveBatching ?? {};
+    this.targetLatencyMs = adaptive === false ? null : adaptive.targetLatencyMs ?? 2000;
+    this.minBatchSize = adaptive === false ? this.batchSize : Math.min(adaptive.minBatchSize ?? 1, this.batchSize);
+    this.currentBatchSize = this.batchSize;
+
+    this.spool = options.spool ? new DiskSpool<T>(options.spool) : null;
+    for (const { item, ref } of this.spool?.recover(this.maxQueueSize) ?? []) {
+      this.queue.push(item);
+      this.queueRefs.push(ref);
+    }
 
     this.startFlushTimer();
+    this.unregisterShutdown = registerShutdownHandler(
+      `HttpTransport ${this.apiUrl}`,
+      async () => {
+        const queued = this.queue.length;
+        const sent = this.sentCount;
+        await this.stop();
+        // Reported as failed by shutdown()
+        const unsent = queued - (this.sentCount - sent);
+        if (unsent > 0) {
+          throw new Error(`${unsent} queued event(s) were not sent`);
+        }
+      },
+      "transport"
+    );
   }
 
   private startFlushTimer(): void {
@@ -143,21 +351,27 @@ export class HttpTransport {
    * Add an event to the send queue.
    * This is the MetricEmitter interface.
    */
-  emit: MetricEmitter = (event: MetricEvent): void => {
+  emit = (event: T): void => {
     if (this.isStopped) {
       return;
     }
 
+    // Spooled events that overflow the queue stay on disk (unacknowledged)
+    // and are replayed on the next startup; only the spool can drop them
+    const ref = this.spool?.append(event);
+
     if (this.queue.length >= this.maxQueueSize) {
+      if (ref) return;
       this.droppedCount++;
       this.onQueueOverflow?.(this.droppedCount);
       return;
     }
 
     this.queue.push(event);
+    this.queueRefs.push(ref);
 
     // Flush if batch size reached
-    if (this.queue.length >= this.batchSize) {
+    if (this.queue.length >= this.currentBatchSize) {
       this.flushAsync().catch((err) => {
         console.error("[HttpTransport] Error in batch flush:", err);
       });
@@ -168,16 +382,113 @@ export class HttpTransport {
    * Flush pending events (async version)
    */
   async flushAsync(): Promise<void> {
+    await this.flushBatch();
+  }
+
+  /**
+   * Send the next batch
+   *
+   * @param final - Last flush on stop(): send even while the circuit is open
+   *   or a Retry-After wait is pending, with a single attempt
+   * @returns false if the batch failed to send
+   */
+  private async flushBatch(final = false): Promise<boolean> {
     if (this.queue.length === 0) {
-      return;
+      return true;
     }
 
-    const batch = this.queue.splice(0, this.batchSize);
-    if (batch.length === 0) {
-      return;
+    const paused = Date.now() < this.pausedUntil || this.circuitState !== "closed";
+    if (!final) {
+      // Circuit open or Retry-After pending: keep the events queued
+      if (Date.now() < this.pausedUntil) {
+        return false;
+      }
+      if (this.circuitState === "open") {
+        // Hold other flushes back while the trial batch is out
+        this.circuitState = "half-open";
+        this.pausedUntil = Date.now() + this.resetTimeoutMs;
+      }
+    }
+
+    const batch = this.queue.splice(0, this.currentBatchSize);
+    const refs = this.queueRefs.splice(0, batch.length);
+
+    // A half-open circuit (and a final flush past a pause) gets a single attempt
+    const single = this.circuitState === "half-open" || (final && paused);
+    const result = await this.sendBatch(batch, single ? 1 : this.maxRetries);
+    if (result.ok) {
+      this.spool?.ack(refs);
+      this.recordSuccess(result.latencyMs);
+      return true;
+    }
+
+    // Too large: split by sending the same events in smaller batches
+    if (result.tooLarge && batch.length > 1) {
+      this.tooLargeBatchSize = Math.min(this.tooLargeBatchSize, batch.length);
+      this.currentBatchSize = Math.max(1, Math.floor(batch.length / 2));
+      this.requeue(batch, refs);
+      return true;
     }
 
-    await this.sendBatch(batch);
+    this.errorCount += batch.length;
+    this.onSendError?.(result.error, batch, this.stats);
+
+    // A rejected batch would be rejected again: drop it from the spool
+    if (!result.retryable) {
+      this.spool?.ack(refs);
+      return false;
+    }
+
+    this.recordFailure();
+
+    // Spooled events are kept, and so are events the server asked to
+    // resend later: put the batch back for the next flush
+    if (this.spool || result.deferred) {
+      this.requeue(batch, refs);
+    }
+    return false;
+  }
+
+  /**
+   * Put a batch back at the front of the queue (as far as there is room)
+   */
+  private requeue(batch: T[], refs: Array<SpoolRef | undefined>): void {
+    const room = Math.max(0, this.maxQueueSize - this.queue.length);
+    this.queue.unshift(...batch.slice(0, room));
+    this.queueRefs.unshift(...refs.slice(0, room));
+  }
+
+  private recordSuccess(latencyMs: number): void {
+    if (this.circuitState !== "closed") {
+      logger.info(`HttpTransport ${this.apiUrl} is reachable again; circuit closed`);
+    }
+    this.circuitState = "closed";
+    this.consecutiveFailures = 0;
+    this.pausedUntil = 0;
+
+    // Halve slow batches; grow back by a tenth of the maximum when fast,
+    // but never to a size the server rejected as too large
+    if (this.targetLatencyMs === null) return;
+    const maxBatchSize = Math.min(this.batchSize, this.tooLargeBatchSize - 1);
+    if (latencyMs > this.targetLatencyMs) {
+      this.currentBatchSize = Math.max(this.minBatchSize, Math.floor(this.currentBatchSize / 2));
+    } else if (this.currentBatchSize < maxBatchSize) {
+      this.currentBatchSize = Math.min(maxBatchSize, this.currentBatchSize + Math.ceil(this.batchSize / 10));
+    }
+  }
+
+  private recordFailure(): void {
+    this.consecutiveFailures++;
+    if (this.circuitState === "half-open" || this.consecutiveFailures >= this.failureThreshold) {
+      if (this.circuitState === "closed") {
+        logger.warn(
+          `HttpTransport ${this.apiUrl} failed ${this.consecutiveFailures} batches in a row; ` +
+            `pausing sends for ${this.resetTimeoutMs}ms`
+        );
+      }
+      this.circuitState = "open";
+      this.pausedUntil = Math.max(this.pausedUntil, Date.now() + this.resetTimeoutMs);
+    }
   }
 
   /**
@@ -192,18 +503,19 @@ export class HttpTransport {
    */
   async flushAll(): Promise<void> {
     while (this.queue.length > 0) {
-      await this.flushAsync();
+      // Stop at the first failure (a spooled batch would be retried forever)
+      if (!(await this.flushBatch())) break;
     }
   }
 
-  private async sendBatch(batch: MetricEvent[]): Promise<void> {
-    const payload = {
-      metrics: batch,
-      timestamp: Date.now(),
-    };
-
+  /**
+   * Send a batch with retries
+   *
+   * @param attempts - Most attempts (maxRetries, or 1 for a half-open circuit)
+   */
+  private async sendBatch(batch: T[], attempts: number): Promise<SendResult> {
     const headers: Record<string, string> = {
-      "Content-Type": "application/json",
+      "Content-Type": this.encoding === "ndjson" ? "application/x-ndjson" : "application/json",
       "User-Agent": "openai-meter/0.1.0",
       ...this.extraHeaders,
     };
@@ -212,42 +524,76 @@ export class HttpTransport {
       headers["Authorization"] = `Bearer ${this.apiKey}`;
     }
 
+    let body: Buffer = Buffer.from(
+      this.encoding === "ndjson"
+        ? batch.map((event) => JSON.stringify(event) + "\n").join("")
+        : JSON.stringify(this.formatPayload(batch))
+    );
+    if (this.compress && body.length >= this.compressionThreshold) {
+      body = await this.compress(body);
+      headers["Content-Encoding"] = this.compression;
+    }
+
     let lastError: Error | null = null;
 
-    for (let attempt = 0; attempt < this.maxRetries; attempt++) {
+    for (let attempt = 0; attempt < attempts; attempt++) {
       try {
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
         try {
-          const response = await fetch(this.apiUrl, {
-            method: "POST",
-            headers,
-            body: JSON.stringify(payload),
-            signal: controller.signal,
-          });
+          // Each attempt is authenticated afresh (tokens and signed timestamps expire)
+          const request: HttpTransportRequest = { url: this.apiUrl, method: "POST", headers: { ...headers }, body };
+          await this.authenticate?.(request);
+          const startTime = Date.now();
+          const response = await this.post(request, controller.signal);
 
           clearTimeout(timeoutId);
 
           if (response.ok) {
             this.sentCount += batch.length;
-            return;
+            return { ok: true, latencyMs: Date.now() - startTime };
           }
 
-          // Server error - retry
-          if (response.status >= 500) {
+          // Rate limited or unavailable with Retry-After - pause sends until then
+          const retryAfter =
+            response.status === 429 || response.status === 503
+              ? parseRetryAfter(response.headers.get("retry-after"))
+              : null;
+          if (retryAfter !== null) {
+            this.pausedUntil = Math.max(this.pausedUntil, Date.now() + retryAfter);
+            return {
+              ok: false,
+              error: new Error(`Server error: ${response.status} ${response.statusText} (retry after ${retryAfter}ms)`),
+              retryable: true,
+              deferred: true,
+            };
+          }
+
+          if (response.status === 413) {
+            return {
+              ok: false,
+              error: new Error(`Client error: 413 ${response.statusText} (batch of ${batch.length})`),
+              retryable: false,
+              tooLarge: true,
+            };
+          }
+
+          // Server error or rate limit - retry
+          if (response.status >= 500 || response.status === 429) {
             lastError = new Error(
               `Server error: ${response.status} ${response.statusText}`
             );
-            await this.sleep(Math.pow(2, attempt) * 1000);
+            if (attempt + 1 < attempts) await this.sleep(Math.pow(2, attempt) * 1000);
             continue;
           }
 
           // Client error - don't retry
-          lastError = new Error(
-            `Client error: ${response.status} ${response.statusText}`
-          );
-          break;
+          return {
+            ok: false,
+            error: new Error(`Client error: ${response.status} ${response.statusText}`),
+            retryable: false,
+          };
         } finally {
           clearTimeout(timeoutId);
         }
@@ -260,17 +606,54 @@ export class HttpTransport {
         }
 
         // Network errors - retry with backoff
-        await this.sleep(Math.pow(2, attempt) * 1000);
+        if (attempt + 1 < attempts) await this.sleep(Math.pow(2, attempt) * 1000);
       }
     }
 
     // All retries failed
-    this.errorCount += batch.length;
-    this.onSendError?.(
-      lastError ?? new Error("Unknown error"),
-      batch,
-      this.stats
-    );
+    return { ok: false, error: lastError ?? new Error("Unknown error"), retryable: true };
+  }
+
+  /**
+   * POST a request: with fetch, or with the https module when a client
+   * certificate is configured (fetch can't present one)
+   */
+  private post(
+    request: HttpTransportRequest,
+    signal: AbortSignal
+  ): Promise<{ ok: boolean; status: number; statusText: string; headers: { get(name: string): string | null } }> {
+    if (!this.tlsAgent) {
+      return fetch(request.url, { method: request.method, headers: request.headers, body: request.body, signal });
+    }
+
+    const agent = this.tlsAgent;
+    return new Promise((resolve, reject) => {
+      const req = httpsRequest(
+        request.url,
+        {
+          method: request.method,
+          headers: { ...request.headers, "Content-Length": String(request.body.length) },
+          agent,
+          signal,
+        },
+        (res) => {
+          const status = res.statusCode ?? 0;
+          res.resume();
+          const headers = {
+            get: (name: string) => {
+              const value = res.headers[name.toLowerCase()];
+              return value === undefined ? null : Array.isArray(value) ? value.join(", ") : value;
+            },
+          };
+          res.on("end", () =>
+            resolve({ ok: status >= 200 && status < 300, status, statusText: res.statusMessage ?? "", headers })
+          );
+          res.on("error", reject);
+        }
+      );
+      req.on("error", reject);
+      req.end(request.body);
+    });
   }
 
   private sleep(ms: number): Promise<void> {
@@ -286,21 +669,47 @@ export class HttpTransport {
       dropped: this.droppedCount,
       errors: this.errorCount,
       queued: this.queue.length,
+      circuitState: this.circuitState,
+      batchSize: this.currentBatchSize,
+      ...(this.spool && {
+        spooled: this.spool.depth,
+        spoolBytes: this.spool.bytes,
+        spoolDropped: this.spool.dropped,
+      }),
     };
   }
 
   /**
-   * Stop the transport and flush remaining events
+   * Stop the transport and flush remaining events.
+   *
+   * Queued events get one last try, even while the circuit is open or a
+   * Retry-After wait is pending. Events still unsent stay in the spool;
+   * without one they are counted as dropped and passed to onSendError.
    */
   async stop(): Promise<void> {
     this.isStopped = true;
+    this.unregisterShutdown();
 
     if (this.flushTimer) {
       clearInterval(this.flushTimer);
       this.flushTimer = null;
     }
 
-    await this.flushAll();
+    while (this.queue.length > 0) {
+      if (!(await this.flushBatch(true))) break;
+    }
+    if (this.queue.length === 0) return;
+
+    const unsent = this.queue;
+    this.queue = [];
+    this.queueRefs = [];
+    if (this.spool) {
+      logger.warn(`HttpTransport ${this.apiUrl} stopped with ${unsent.length} unsent event(s); kept in the spool`);
+      return;
+    }
+    this.droppedCount += unsent.length;
+    logger.warn(`HttpTransport ${this.apiUrl} stopped with ${unsent.length} unsent event(s); dropped`);
+    this.onSendError?.(new Error(`Transport stopped with ${unsent.length} unsent event(s)`), unsent, this.stats);
   }
 
   /**
@@ -31,6 +31,16 @@ export {
 } from "./instrument.js";
 export type { InstrumentationResult } from "./instrument.js";
 
+// Graceful shutdown (flush buffered emitters, transports and control agents)
+export { shutdown, installShutdownHooks, registerShutdownHandler } from "./shutdown.js";
+export type {
+  ShutdownOptions,
+  ShutdownResult,
+  ShutdownHookOptions,
+  ShutdownHandlerOptions,
+  ShutdownStage,
+} from "./shutdown.js";
+
 // Google GenAI instrumentation (new SDK for Google ADK)
 export {
   instrumentGenai,
@@ -70,6 +80,7 @@ export {
   normalizeOpenAIUsage,
   normalizeAnthropicUsage,
   normalizeGeminiUsage,
+  normalizeGeminiCachedContent,
   emptyUsage,
   mergeUsage,
 } from "./normalize.js";
@@ -95,6 +106,18 @@ export {
 } from "./emitters.js";
 export type { JsonFileEmitterOptions } from "./emitters.js";
 
+// OpenTelemetry spans (GenAI semantic conventions)
+export { createOtelEmitter } from "./otel-emitter.js";
+export type { OtelEmitterOptions } from "./otel-emitter.js";
+
+// Prometheus exposition (scrape endpoint)
+export { createPrometheusEmitter } from "./prometheus-emitter.js";
+export type { PrometheusEmitterOptions, PrometheusLabel } from "./prometheus-emitter.js";
+
+// Sampling and pre-aggregation (high-volume workloads)
+export { createSamplingEmitter } from "./sampling-emitter.js";
+export type { SamplingEmitterOptions, MetricAggregate } from "./sampling-emitter.js";
+
 // File-based logging
 export { MetricFileLogger, createFileEmitter } from "./file-logger.js";
 export type { MetricFileLoggerOptions } from "./file-logger.js";
@@ -107,15 +130,48 @@ export {
 } from "./http-transport.js";
 export type {
   HttpTransportOptions,
+  HttpTransportRequest,
+  HttpTransportTlsOptions,
   TransportStats,
   QueueOverflowHandler,
   SendErrorHandler,
 } from "./http-transport.js";
 
+// Request signing (HMAC authenticate hook for HttpTransport)
+export { createHmacAuthenticator, verifyHmacSignature } from "./request-signing.js";
+export type { HmacSigningOptions, HmacVerifyOptions } from "./request-signing.js";
+
+// Disk spool (write-ahead segment files for unsent events)
+export { DiskSpool } from "./spool.js";
+export type { SpoolOptions, SpoolRef, SpooledItem } from "./spool.js";
+
+// OTLP/HTTP metrics (aggregated counters and histograms)
+export { OtlpMetricsExporter, createOtlpMetricsExporter } from "./otlp-metrics.js";
+export type { OtlpMetricsExporterOptions, OtlpExportRequest } from "./otlp-metrics.js";
+
 // Analytics engine
 export { AnalyticsEngine, createAnalyticsEmitter } from "./analytics.js";
 export type { AnalyticsReport } from "./analytics.js";
 
+// Pricing registry (shared by instrumentation, analytics, reports, budgets and simulations)
+export {
+  PricingRegistry,
+  createPricingRegistry,
+  getDefaultPricingRegistry,
+  priceMetricEvent,
+} from "./pricing.js";
+export type {
+  ModelPricing,
+  TierPricing,
+  PricingMatch,
+  PricingResolution,
+  PricingOverrides,
+  PricingRegistryOptions,
+  PricedUsage,
+  CostOptions,
+  CostBreakdown,
+} from "./pricing.js";
+
 // Report builder & HTML generation
 export { ReportBuilder, createReportEmitter } from "./report-builder.js";
 export { generateHTMLReport } from "./html-report.js";
@@ -142,6 +198,7 @@ export type {
   NormalizedUsage,
   RequestMetadata,
   MetricEvent,
+  MetricOperation,
   RateLimitInfo,
   ToolCallMetric,
   MetricEmitter,
@@ -188,13 +245,66 @@ export type {
   ControlAgentOptions,
   IControlAgent,
   BudgetRule,
+  BudgetPeriod,
   ThrottleRule,
   BlockRule,
   DegradeRule,
   AlertRule,
+  FallbackRule,
+  FallbackTarget,
+  FallbackTrigger,
   AlertEvent,
   HeartbeatEvent,
   // Hybrid enforcement types
   BudgetValidationRequest,
   BudgetValidationResponse,
 } from "./control-types.js";
+
+// Local control policies (ControlAgent without a control server)
+export {
+  PolicyValidationError,
+  validateControlPolicy,
+  loadPolicyFile,
+  watchPolicyFile,
+} from "./control-policy.js";
+
+// Budget spend persistence
+export {
+  MemoryBudgetStore,
+  FileBudgetStore,
+  createMemoryBudgetStore,
+  createFileBudgetStore,
+} from "./budget-store.js";
+export type {
+  BudgetStore,
+  BudgetSpendState,
+  FileBudgetStoreOptions,
+} from "./budget-store.js";
+export { getBudgetWindow } from "./budget-period.js";
+export type { BudgetWindow } from "./budget-period.js";
+
+// Provider rate limits (adaptive throttling from rate-limit headers)
+export {
+  RateLimitTracker,
+  parseRateLimitHeaders,
+  readRateLimitInfo,
+  applyRateLimitInfo,
+} from "./rate-limits.js";
+export type { RateLimitTrackerOptions, RateLimitCheck } from "./rate-limits.js";
+
+// Response cache (serve repeated identical requests without a provider call)
+export {
+  ResponseCache,
+  MemoryResponseCacheStore,
+  FileResponseCacheStore,
+  createResponseCache,
+  createMemoryResponseCacheStore,
+  createFileResponseCacheStore,
+} from "./response-cache.js";
+export type {
+  ResponseCacheOptions,
+  ResponseCacheStore,
+  CachedResponse,
+  MemoryResponseCacheStoreOptions,
+  FileResponseCacheStoreOptions,
+} from "./response-cache.js";
@@ -3,14 +3,33 @@
  *
  * Call `instrumentAnthropic()` once at startup, and all Anthropic client instances
  * (existing and future) are automatically metered.
+ *
+ * Covers `messages.create` (including the `messages.stream()` helper, which
+ * calls create internally), `messages.countTokens`, and Message Batches:
+ * each batch result is emitted as its own event, keyed by its custom_id and
+ * priced at batch rates.
  */
 
 import { randomUUID } from "crypto";
 import { getCallRelationship, getFullAgentStack } from "./context.js";
+import { normalizeAnthropicUsage } from "./normalize.js";
+import { priceMetricEvent } from "./pricing.js";
+import { createStreamTimer, hasAnthropicStreamContent } from "./stream-metrics.js";
+import { applyRateLimitInfo, readRateLimitInfo } from "./rate-limits.js";
+import { applyRetryInfo, patchRetryTracking, runWithAttemptTracking, type RequestAttempt } from "./retry-tracking.js";
+import {
+  applyTranslationOrigin,
+  callTranslated,
+  crossProviderParams,
+  getCrossProviderTarget,
+} from "./provider-translation.js";
+import { applyFallbackHop, bindFallbackHop, classifyFallbackError, classifyFallbackResponse, runFallbackChain } from "./fallback.js";
+import { applyCacheHit } from "./response-cache.js";
 import type {
   MetricEvent,
   MeterOptions,
   NormalizedUsage,
+  RateLimitInfo,
   ToolCallMetric,
   BeforeRequestContext,
   BeforeRequestResult,
@@ -18,11 +37,12 @@ import type {
 import { RequestCancelledError } from "./types.js";
 
 /**
- * Safely emit a metric event, handling cases where emitMetric might be undefined
+ * Safely emit a metric event, handling cases where emitMetric might be undefined.
+ * Cost fields are filled from the pricing registry before the event is emitted.
  */
 async function safeEmit(options: MeterOptions, event: MetricEvent): Promise<void> {
   if (options.emitMetric) {
-    await options.emitMetric(event);
+    await options.emitMetric(priceMetricEvent(applyFallbackHop(applyTranslationOrigin(event)), options.pricing));
   }
 }
 
@@ -32,26 +52,19 @@ let globalOptions: MeterOptions | null = null;
 
 // Store original methods for uninstrumentation
 let originalMessagesCreate: ((...args: unknown[]) => unknown) | null = null;
-
-/**
- * Normalize Anthropic usage to our standard format
- */
-function normalizeAnthropicUsage(usage: unknown): NormalizedUsage | null {
-  if (!usage || typeof usage !== "object") return null;
-
-  const u = usage as Record<string, unknown>;
-
-  return {
-    input_tokens: (u.input_tokens as number) ?? 0,
-    output_tokens: (u.output_tokens as number) ?? 0,
-    total_tokens:
-      ((u.input_tokens as number) ?? 0) + ((u.output_tokens as number) ?? 0),
-    cached_tokens: (u.cache_read_input_tokens as number) ?? 0,
-    reasoning_tokens: 0,
-    accepted_prediction_tokens: 0,
-    rejected_prediction_tokens: 0,
-  };
-}
+// countTokens and Message Batches methods (prototype, method name, original)
+const patchedMethods: Array<{
+  proto: Record<string, unknown>;
+  method: string;
+  original: (...args: unknown[]) => unknown;
+}> = [];
+// Removes the attempt recorder from the client's fetchWithTimeout
+let restoreRetryTracking: (() => void) | null = null;
+
+// Models of submitted batch requests (batch id -> custom_id -> model), so
+// results without a message (errored, expired) are still attributed to a model
+const batchModels = new Map<string, Map<string, string>>();
+const MAX_TRACKED_BATCHES = 1000;
 
 /**
  * Extract request ID from Anthropic response headers
@@ -124,6 +137,13 @@ function buildFlatEvent(
     reasoning_tokens: usage?.reasoning_tokens ?? 0,
   };
 
+  if (usage?.cache_write_tokens) {
+    event.cache_write_tokens = usage.cache_write_tokens;
+    if (usage.cache_write_1h_tokens) {
+      event.cache_write_1h_tokens = usage.cache_write_1h_tokens;
+    }
+  }
+
   // Add error if present
   if (error) {
     event.error = error;
@@ -172,12 +192,19 @@ function createMeteredStream<T extends AsyncIterable<unknown>>(
   spanId: string,
   params: Record<string, unknown>,
   t0: number,
-  meterOptions: MeterOptions
+  meterOptions: MeterOptions,
+  rateLimit: RateLimitInfo | null,
+  attempts: RequestAttempt[]
 ): T {
   const originalIterator = stream[Symbol.asyncIterator]();
+  // Raw usage: input and cache counts arrive in message_start, output in message_delta
+  const rawUsage: Record<string, unknown> = {};
   let finalUsage: NormalizedUsage | null = null;
   let requestId: string | null = null;
   const toolCalls: ToolCallMetric[] = [];
+  const timer = createStreamTimer(t0);
+  // Read after the call returned, outside the async context of a fallback hop
+  const emit = bindFallbackHop((event: MetricEvent) => safeEmit(meterOptions, event));
 
   const meteredIterator: AsyncIterator<unknown> = {
     async next() {
@@ -185,20 +212,26 @@ function createMeteredStream<T extends AsyncIterable<unknown>>(
 
       if (!result.done && result.value) {
         const event = result.value as Record<string, unknown>;
+        timer.chunk(hasAnthropicStreamContent(event));
 
-        // Capture message_start for request ID
+        // Capture message_start for request ID and input usage
         if (event.type === "message_start") {
           const message = event.message as Record<string, unknown>;
           if (message) {
             requestId = extractRequestId(message);
+            Object.assign(rawUsage, message.usage);
+            finalUsage = normalizeAnthropicUsage(rawUsage);
           }
         }
 
-        // Capture message_delta for usage
+        // Capture message_delta for cumulative output usage
         if (event.type === "message_delta") {
           const usage = event.usage as Record<string, unknown>;
           if (usage) {
-            finalUsage = normalizeAnthropicUsage(usage);
+            for (const [key, value] of Object.entries(usage)) {
+              if (value !== null && value !== undefined) rawUsage[key] = value;
+            }
+            finalUsage = normalizeAnthropicUsage(rawUsage);
           }
         }
 
@@ -222,7 +255,7 @@ function createMeteredStream<T extends AsyncIterable<unknown>>(
           spanId, params, true, Date.now() - t0, finalUsage,
           requestId, meterOptions, toolCalls.length > 0 ? toolCalls : undefined
         );
-        await safeEmit(meterOptions, metricEvent);
+        await emit(timer.apply(applyRetryInfo(applyRateLimitInfo(metricEvent, rateLimit), attempts)));
       }
 
       return result;
@@ -232,7 +265,7 @@ function createMeteredStream<T extends AsyncIterable<unknown>>(
         spanId, params, true, Date.now() - t0, finalUsage,
         requestId, meterOptions, toolCalls.length > 0 ? toolCalls : undefined
       );
-      await safeEmit(meterOptions, metricEvent);
+      await emit(timer.apply(applyRetryInfo(applyRateLimitInfo(metricEvent, rateLimit), attempts)));
 
       if (originalIterator.return) {
         return originalIterator.return(value);
@@ -244,7 +277,7 @@ function createMeteredStream<T extends AsyncIterable<unknown>>(
         spanId, params, true, Date.now() - t0, null, requestId, meterOptions, undefined,
         error instanceof Error ? error.message : String(error)
       );
-      await safeEmit(meterOptions, metricEvent);
+      await emit(timer.apply(applyRetryInfo(applyRateLimitInfo(metricEvent, rateLimit), attempts)));
 
       if (originalIterator.throw) {
         return originalIterator.throw(error);
@@ -283,6 +316,7 @@ async function executeBeforeRequestHook(
 
   const context: BeforeRequestContext = {
     model: params.model as string,
+    provider: "anthropic",
     stream: !!params.stream,
     spanId,
     traceId: spanId,
@@ -306,6 +340,10 @@ async function executeBeforeRequestHook(
     if (result.delayMs) {
       await sleep(result.delayMs);
     }
+    // Another provider: translated and served by its client (see wrapMessagesCreate)
+    if (result.toProvider && result.toProvider !== "anthropic") {
+      return crossProviderParams("anthropic", params, result.toProvider, result.toModel, meterOptions.degradeClients);
+    }
     // Return modified params with degraded model
     return { ...params, model: result.toModel };
   }
@@ -323,6 +361,34 @@ async function executeBeforeRequestHook(
   return params;
 }
 
+/**
+ * Give a metered promise the APIPromise helpers of the SDK call it wraps.
+ * The SDK's own helpers depend on them (e.g. `messages.stream()` calls
+ * `messages.create(...).withResponse()`).
+ */
+function withAPIPromiseHelpers<T>(
+  metered: Promise<T>,
+  getAPIPromise: () => unknown
+): Promise<T> {
+  const apiPromise = () =>
+    getAPIPromise() as {
+      withResponse?: () => Promise<Record<string, unknown>>;
+      asResponse?: () => Promise<unknown>;
+    } | undefined;
+
+  return Object.assign(metered, {
+    async asResponse() {
+      await metered;
+      return apiPromise()?.asResponse?.();
+    },
+    async withResponse() {
+      const data = await metered;
+      const result = await apiPromise()?.withResponse?.();
+      return { ...result, data };
+    },
+  });
+}
+
 /**
  * Create wrapper for messages.create method
  */
@@ -330,60 +396,325 @@ function wrapMessagesCreate(
   originalFn: (...args: unknown[]) => unknown,
   getOptions: () => MeterOptions
 ) {
-  return async function (
+  return function create(
+    this: unknown,
+    params: Record<string, unknown>,
+    ...rest: unknown[]
+  ): Promise<unknown> {
+    let apiPromise: unknown;
+    const metered = (async () => {
+      const meterOptions = getOptions();
+      const spanId = meterOptions.generateSpanId?.() ?? randomUUID();
+      const t0 = Date.now();
+      const attempts: RequestAttempt[] = [];
+      let finalParams = params;
+
+      try {
+        // Execute beforeRequest hook (may throttle, cancel, or degrade)
+        finalParams = await executeBeforeRequestHook(params, spanId, meterOptions);
+
+        // Degraded to another provider: its instrumentation meters the call.
+        // Not awaited, so a failure is not metered a second time here. No event
+        // carries this span, so its throttle admission is released here.
+        const target = getCrossProviderTarget(finalParams);
+        if (target) {
+          return callTranslated("anthropic", finalParams, target, params.model as string, meterOptions.degradeClients).finally(
+            () => meterOptions.controlAgent?.releaseAdmission?.(spanId)
+          );
+        }
+
+        // Served from the response cache: the policy still applies, only the
+        // provider call is skipped. The hit event releases the admission.
+        const cacheKey = meterOptions.responseCache?.keyFor("anthropic:messages", finalParams) ?? null;
+        const cached = cacheKey ? await meterOptions.responseCache!.get(cacheKey) : undefined;
+        if (cached) {
+          const event = buildFlatEvent(spanId, finalParams, false, Date.now() - t0, null, null, meterOptions);
+          await safeEmit(meterOptions, applyCacheHit(event, cached, meterOptions.pricing));
+          return cached.response;
+        }
+
+        apiPromise = runWithAttemptTracking(attempts, () => originalFn.call(this, finalParams, ...rest));
+        const result = await apiPromise;
+        const rateLimit = await readRateLimitInfo(apiPromise);
+
+        // Handle streaming
+        if (
+          finalParams.stream &&
+          result &&
+          typeof result === "object" &&
+          Symbol.asyncIterator in result
+        ) {
+          return createMeteredStream(
+            result as AsyncIterable<unknown>,
+            spanId,
+            finalParams,
+            t0,
+            meterOptions,
+            rateLimit,
+            attempts
+          );
+        }
+
+        // Non-streaming response
+        const response = result as Record<string, unknown>;
+        const usage = normalizeAnthropicUsage(response?.usage);
+        const toolCalls = meterOptions.trackToolCalls !== false ? extractToolCalls(result) : undefined;
+        const event = buildFlatEvent(
+          spanId, finalParams, false, Date.now() - t0, usage,
+          extractRequestId(result), meterOptions, toolCalls
+        );
+        applyRateLimitInfo(event, rateLimit);
+        applyRetryInfo(event, attempts);
+
+        await safeEmit(meterOptions, event);
+
+        // Refused by the model: try the policy's fallback models
+        const filtered = classifyFallbackResponse(result);
+        if (cacheKey && !filtered && finalParams.model === params.model) {
+          await meterOptions.responseCache!.set(cacheKey, result, usage);
+        }
+        const fallback = filtered &&
+          (await runFallbackChain("anthropic", finalParams, filtered, spanId, meterOptions, (hopParams) =>
+            create.call(this, hopParams, ...rest)
+          ));
+        return fallback ? fallback.result : result;
+      } catch (error) {
+        const event = buildFlatEvent(
+          spanId, params, false, Date.now() - t0, null, null, meterOptions, undefined,
+          error instanceof Error ? error.message : String(error)
+        );
+        applyRateLimitInfo(event, await readRateLimitInfo(error));
+        applyRetryInfo(event, attempts);
+
+        await safeEmit(meterOptions, event);
+
+        // Provider failure (5xx, overloaded, timeout): try the policy's fallback models
+        const trigger = classifyFallbackError(error);
+        const fallback = trigger &&
+          (await runFallbackChain("anthropic", finalParams, trigger, spanId, meterOptions, (hopParams) =>
+            create.call(this, hopParams, ...rest)
+          ));
+        if (fallback) return fallback.result;
+        throw error;
+      }
+    })();
+
+    return withAPIPromiseHelpers(metered, () => apiPromise);
+  };
+}
+
+/**
+ * Create wrapper for messages.countTokens.
+ * Token counting is free, so the event carries no usage; the counted
+ * tokens are recorded in metadata.
+ */
+function wrapCountTokens(
+  originalFn: (...args: unknown[]) => unknown,
+  getOptions: () => MeterOptions
+) {
+  return function (
     this: unknown,
     params: Record<string, unknown>,
     ...rest: unknown[]
   ) {
-    const meterOptions = getOptions();
-    const spanId = meterOptions.generateSpanId?.() ?? randomUUID();
-    const t0 = Date.now();
-
-    try {
-      // Execute beforeRequest hook (may throttle, cancel, or degrade)
-      const finalParams = await executeBeforeRequestHook(params, spanId, meterOptions);
-
-      const result = await originalFn.call(this, finalParams, ...rest);
-
-      // Handle streaming
-      if (
-        finalParams.stream &&
-        result &&
-        typeof result === "object" &&
-        Symbol.asyncIterator in result
-      ) {
-        return createMeteredStream(
-          result as AsyncIterable<unknown>,
-          spanId,
-          finalParams,
-          t0,
-          meterOptions
+    let apiPromise: unknown;
+    const metered = (async () => {
+      const meterOptions = getOptions();
+      const spanId = meterOptions.generateSpanId?.() ?? randomUUID();
+      const t0 = Date.now();
+      const attempts: RequestAttempt[] = [];
+
+      try {
+        apiPromise = runWithAttemptTracking(attempts, () => originalFn.call(this, params, ...rest));
+        const result = await apiPromise;
+
+        const event = buildFlatEvent(spanId, params, false, Date.now() - t0, null, null, meterOptions);
+        event.operation = "count_tokens";
+        applyRetryInfo(event, attempts);
+        const counted = (result as Record<string, unknown> | null)?.input_tokens;
+        if (typeof counted === "number") {
+          event.metadata = { counted_input_tokens: String(counted) };
+        }
+
+        await safeEmit(meterOptions, event);
+        return result;
+      } catch (error) {
+        const event = buildFlatEvent(
+          spanId, params, false, Date.now() - t0, null, null, meterOptions, undefined,
+          error instanceof Error ? error.message : String(error)
         );
+        event.operation = "count_tokens";
+        applyRetryInfo(event, attempts);
+
+        await safeEmit(meterOptions, event);
+        throw error;
       }
+    })();
 
-      // Non-streaming response
-      const response = result as Record<string, unknown>;
-      const usage = normalizeAnthropicUsage(response?.usage);
-      const toolCalls = meterOptions.trackToolCalls !== false ? extractToolCalls(result) : undefined;
-      const event = buildFlatEvent(
-        spanId, finalParams, false, Date.now() - t0, usage,
-        extractRequestId(result), meterOptions, toolCalls
-      );
+    return withAPIPromiseHelpers(metered, () => apiPromise);
+  };
+}
+
+/**
+ * Create wrapper for messages.batches.create.
+ * Nothing is billed at submission; the model of each request is remembered
+ * so its result can be attributed later.
+ */
+function wrapBatchesCreate(originalFn: (...args: unknown[]) => unknown) {
+  return function (
+    this: unknown,
+    params: Record<string, unknown>,
+    ...rest: unknown[]
+  ) {
+    const apiPromise = originalFn.call(this, params, ...rest);
+
+    const models = new Map<string, string>();
+    for (const request of (params?.requests as Array<Record<string, unknown>> | undefined) ?? []) {
+      const model = (request.params as Record<string, unknown> | undefined)?.model;
+      if (typeof request.custom_id === "string" && typeof model === "string") {
+        models.set(request.custom_id, model);
+      }
+    }
+
+    Promise.resolve(apiPromise).then(
+      (batch) => {
+        const batchId = (batch as Record<string, unknown> | null)?.id;
+        if (typeof batchId !== "string" || models.size === 0) return;
+        if (batchModels.size >= MAX_TRACKED_BATCHES) {
+          batchModels.delete(batchModels.keys().next().value as string);
+        }
+        batchModels.set(batchId, models);
+      },
+      () => {
+        // The caller sees the error; nothing to track
+      }
+    );
+
+    return apiPromise;
+  };
+}
+
+/**
+ * Build the event for one Message Batches result line.
+ * The request_id is the custom_id given when the batch was submitted.
+ */
+function buildBatchResultEvent(
+  item: Record<string, unknown>,
+  batchId: string,
+  meterOptions: MeterOptions
+): MetricEvent {
+  const spanId = meterOptions.generateSpanId?.() ?? randomUUID();
+  const customId = (item.custom_id as string) ?? null;
+  const result = item.result as Record<string, unknown> | undefined;
+  const message =
+    result?.type === "succeeded" ? (result.message as Record<string, unknown> | undefined) : undefined;
+
+  const model =
+    (message?.model as string | undefined) ??
+    (customId ? batchModels.get(batchId)?.get(customId) : undefined) ??
+    "unknown";
+
+  let error: string | undefined;
+  if (!message) {
+    const errorBody = (result?.error as Record<string, unknown> | undefined)?.error as
+      | Record<string, unknown>
+      | undefined;
+    error = (errorBody?.message as string | undefined) ?? `Batch request ${result?.type ?? "failed"}`;
+  }
+
+  const toolCalls = message && meterOptions.trackToolCalls !== false ? extractToolCalls(message) : undefined;
+  const event = buildFlatEvent(
+    spanId, { model }, false, 0, normalizeAnthropicUsage(message?.usage),
+    customId, meterOptions, toolCalls, error
+  );
+  event.batch = true;
+  event.metadata = { anthropic_batch_id: batchId };
+  if (message?.id) {
+    event.metadata.message_id = message.id as string;
+  }
+  return event;
+}
+
+/**
+ * Wrap a Message Batches results decoder so each result line is emitted
+ * as it is read
+ */
+function createMeteredBatchResults<T extends AsyncIterable<unknown>>(
+  results: T,
+  batchId: string,
+  meterOptions: MeterOptions
+): T {
+  const originalIterator = results[Symbol.asyncIterator]();
+
+  const meteredIterator: AsyncIterator<unknown> = {
+    async next() {
+      const result = await originalIterator.next();
+
+      if (!result.done && result.value && typeof result.value === "object") {
+        await safeEmit(
+          meterOptions,
+          buildBatchResultEvent(result.value as Record<string, unknown>, batchId, meterOptions)
+        );
+      }
+      if (result.done) {
+        batchModels.delete(batchId);
+      }
 
-      await safeEmit(meterOptions, event);
       return result;
-    } catch (error) {
-      const event = buildFlatEvent(
-        spanId, params, false, Date.now() - t0, null, null, meterOptions, undefined,
-        error instanceof Error ? error.message : String(error)
-      );
+    },
+    async return(value?: unknown) {
+      if (originalIterator.return) {
+        return originalIterator.return(value);
+      }
+      return { done: true, value: undefined };
+    },
+  };
 
-      await safeEmit(meterOptions, event);
-      throw error;
+  return {
+    ...results,
+    [Symbol.asyncIterator]() {
+      return meteredIterator;
+    },
+  } as T;
+}
+
+/**
+ * Create wrapper for messages.batches.results
+ */
+function wrapBatchesResults(
+  originalFn: (...args: unknown[]) => unknown,
+  getOptions: () => MeterOptions
+) {
+  return async function (
+    this: unknown,
+    batchId: string,
+    ...rest: unknown[]
+  ) {
+    const results = await originalFn.call(this, batchId, ...rest);
+
+    if (results && typeof results === "object" && Symbol.asyncIterator in results) {
+      return createMeteredBatchResults(results as AsyncIterable<unknown>, batchId, getOptions());
     }
+    return results;
   };
 }
 
+/**
+ * Patch a method if the installed SDK has it (countTokens and Message
+ * Batches only exist in newer SDK versions)
+ */
+function patchMethod(
+  proto: Record<string, unknown> | undefined,
+  method: string,
+  wrap: (original: (...args: unknown[]) => unknown) => (...args: never[]) => unknown
+): void {
+  if (typeof proto?.[method] !== "function") return;
+
+  const original = proto[method] as (...args: unknown[]) => unknown;
+  patchedMethods.push({ proto, method, original });
+  proto[method] = wrap(original);
+}
+
 /**
  * Instrument Anthropic (Claude) SDK globally.
  *
@@ -402,6 +733,8 @@ export async function instrumentAnthropic(options: MeterOptions): Promise<boolea
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   let Messages: any = null;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let AnthropicClass: any = null;
   try {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     let Anthropic: any = null;
@@ -417,6 +750,7 @@ export async function instrumentAnthropic(options: MeterOptions): Promise<boolea
 
     // The Messages class is used by client.messages
     Messages = Anthropic?.Messages;
+    AnthropicClass = Anthropic;
   } catch {
     // SDK not installed
     return false;
@@ -439,6 +773,18 @@ export async function instrumentAnthropic(options: MeterOptions): Promise<boolea
     );
   }
 
+  patchMethod(Messages.prototype, "countTokens", (original) =>
+    wrapCountTokens(original, () => globalOptions!)
+  );
+  const batchesProto = Messages.Batches?.prototype;
+  patchMethod(batchesProto, "create", (original) => wrapBatchesCreate(original));
+  patchMethod(batchesProto, "results", (original) =>
+    wrapBatchesResults(original, () => globalOptions!)
+  );
+
+  // Record SDK-internal retries of every call
+  restoreRetryTracking = patchRetryTracking(AnthropicClass);
+
   isInstrumented = true;
   return true;
 }
@@ -466,6 +812,14 @@ export async function uninstrumentAnthropic(): Promise<void> {
     // SDK not installed, nothing to do
   }
 
+  for (const { proto, method, original } of patchedMethods) {
+    proto[method] = original;
+  }
+  patchedMethods.length = 0;
+  batchModels.clear();
+  restoreRetryTracking?.();
+  restoreRetryTracking = null;
+
   globalOptions = null;
   isInstrumented = false;
 }
@@ -7,10 +7,17 @@
  * Dify is a platform where LLM calls happen on the server side. The SDK
  * calls Dify's API, and the response includes usage metadata from the server,
  * including pre-calculated costs.
+ *
+ * Streaming calls (`response_mode: "streaming"`) are metered from the
+ * `message_end` / `workflow_finished` events as the caller reads the stream.
+ * Workflow nodes that consume tokens (e.g. LLM nodes) are emitted as child spans.
  */
 
 import { randomUUID } from "crypto";
+import { Transform, pipeline, type Readable } from "stream";
 import { getCallRelationship, getFullAgentStack } from "./context.js";
+import { priceMetricEvent } from "./pricing.js";
+import { createStreamTimer, type StreamTimer } from "./stream-metrics.js";
 import type {
   MetricEvent,
   MeterOptions,
@@ -21,11 +28,12 @@ import type {
 import { RequestCancelledError } from "./types.js";
 
 /**
- * Safely emit a metric event, handling cases where emitMetric might be undefined
+ * Safely emit a metric event, handling cases where emitMetric might be undefined.
+ * Cost fields are filled from the pricing registry before the event is emitted.
  */
 async function safeEmit(options: MeterOptions, event: MetricEvent): Promise<void> {
   if (options.emitMetric) {
-    await options.emitMetric(event);
+    await options.emitMetric(priceMetricEvent(event, options.pricing));
   }
 }
 
@@ -65,6 +73,9 @@ function normalizeDifyUsage(usage: unknown): NormalizedUsage | null {
     output_tokens: u.completion_tokens ?? 0,
     total_tokens: u.total_tokens ?? ((u.prompt_tokens ?? 0) + (u.completion_tokens ?? 0)),
     cached_tokens: 0,
+    cache_read_tokens: 0,
+    cache_write_tokens: 0,
+    cache_write_1h_tokens: 0,
     reasoning_tokens: 0,
     accepted_prediction_tokens: 0,
     rejected_prediction_tokens: 0,
@@ -270,6 +281,7 @@ async function executeBeforeRequestHook(
 
   const context: BeforeRequestContext = {
     model: `dify-${methodType}`,
+    provider: "dify",
     stream: responseMode === "streaming",
     spanId,
     traceId: spanId,
@@ -307,6 +319,303 @@ async function executeBeforeRequestHook(
   return params;
 }
 
+/**
+ * Totals attributed to node-level child spans
+ */
+interface DifyNodeTotals {
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  total_cost: number;
+}
+
+/**
+ * State collected from a Dify SSE stream
+ */
+interface DifyStreamState {
+  /** Usage from message_end metadata (chat/completion/chatflow) */
+  usage: DifyUsage | null;
+  /** Total tokens from workflow_finished (workflows report no input/output split) */
+  workflowTotalTokens: number | null;
+  /** Message ID or workflow run ID */
+  requestId: string | null;
+  /** Model reported in message_end metadata */
+  model: string | null;
+  /** Chunk timing (time to first token, throughput) */
+  timer: StreamTimer;
+  /** Error from an `error` event or a failed workflow */
+  error: string | null;
+  /** Usage already emitted on node child spans */
+  nodeTotals: DifyNodeTotals;
+}
+
+/**
+ * Build a child span for a workflow node that consumed tokens (e.g. an LLM node).
+ * Returns null for nodes without token usage.
+ */
+function buildNodeEvent(
+  parent: MetricEvent,
+  node: Record<string, unknown>,
+  meterOptions: MeterOptions
+): MetricEvent | null {
+  const outputs = node.outputs as Record<string, unknown> | undefined;
+  const executionMetadata = node.execution_metadata as Record<string, unknown> | undefined;
+  const processData = node.process_data as Record<string, unknown> | undefined;
+
+  const usage = normalizeDifyUsage(outputs?.usage);
+  const totalTokens = usage?.total_tokens ?? (executionMetadata?.total_tokens as number | undefined) ?? 0;
+  if (totalTokens === 0) return null;
+
+  const costInfo = extractDifyCost(outputs?.usage) ?? extractDifyCost({
+    total_price: executionMetadata?.total_price,
+    currency: executionMetadata?.currency,
+  });
+
+  const event: MetricEvent = {
+    trace_id: parent.trace_id,
+    span_id: meterOptions.generateSpanId?.() ?? randomUUID(),
+    parent_span_id: parent.span_id,
+    request_id: (node.id as string | undefined) ?? null,
+    provider: "dify",
+    model: (processData?.model_name as string | undefined) ?? `dify-node-${node.node_type ?? "unknown"}`,
+    stream: true,
+    timestamp: new Date().toISOString(),
+    latency_ms: Math.round(((node.elapsed_time as number | undefined) ?? 0) * 1000),
+    input_tokens: usage?.input_tokens ?? 0,
+    output_tokens: usage?.output_tokens ?? 0,
+    total_tokens: totalTokens,
+    cached_tokens: 0,
+    reasoning_tokens: 0,
+    metadata: {
+      dify_node_id: String(node.node_id ?? ""),
+      dify_node_type: String(node.node_type ?? ""),
+      dify_node_title: String(node.title ?? ""),
+    },
+  };
+
+  if (costInfo) {
+    Object.assign(event, costInfo);
+  }
+  if (node.error) {
+    event.error = String(node.error);
+  }
+  if (parent.agent_stack) {
+    event.agent_stack = parent.agent_stack;
+  }
+
+  return event;
+}
+
+/**
+ * Handle one parsed Dify SSE event.
+ *
+ * Node child spans are emitted as soon as the node finishes; the usage they
+ * carry is recorded so the parent span doesn't count it twice.
+ */
+function handleDifyStreamEvent(
+  data: Record<string, unknown>,
+  state: DifyStreamState,
+  parent: MetricEvent,
+  meterOptions: MeterOptions
+): void {
+  const payload = data.data as Record<string, unknown> | undefined;
+  state.timer.chunk(data.event === "message" || data.event === "agent_message" || data.event === "text_chunk");
+
+  switch (data.event) {
+    case "message":
+    case "agent_message":
+    case "text_chunk":
+      state.requestId ??= (data.message_id as string | undefined) ?? null;
+      break;
+
+    case "message_end":
+      state.usage = extractUsageFromResponse(data);
+      state.model = extractModel(data) ?? state.model;
+      state.requestId = (data.message_id ?? data.id ?? state.requestId) as string | null;
+      break;
+
+    case "workflow_started":
+      state.requestId ??= (data.workflow_run_id as string | undefined) ?? null;
+      break;
+
+    case "workflow_finished":
+      state.workflowTotalTokens = (payload?.total_tokens as number | undefined) ?? null;
+      if (payload?.status && payload.status !== "succeeded") {
+        state.error = String(payload.error ?? `Workflow ${payload.status}`);
+      }
+      break;
+
+    case "node_finished": {
+      if (!payload) break;
+      const nodeEvent = buildNodeEvent(parent, payload, meterOptions);
+      if (!nodeEvent) break;
+      state.nodeTotals.input_tokens += nodeEvent.input_tokens;
+      state.nodeTotals.output_tokens += nodeEvent.output_tokens;
+      state.nodeTotals.total_tokens += nodeEvent.total_tokens;
+      state.nodeTotals.total_cost += nodeEvent.total_cost ?? 0;
+      safeEmit(meterOptions, nodeEvent).catch(() => {
+        // Emitter failures must not break the caller's stream
+      });
+      break;
+    }
+
+    case "error":
+      state.error = String(data.message ?? data.code ?? "Dify stream error");
+      break;
+  }
+}
+
+/**
+ * Fill the parent span from the collected stream state.
+ * Usage already reported on node child spans is subtracted.
+ */
+function finalizeStreamEvent(event: MetricEvent, state: DifyStreamState, t0: number, error?: string): MetricEvent {
+  const nodes = state.nodeTotals;
+  const usage = normalizeDifyUsage(state.usage);
+  const costInfo = extractDifyCost(state.usage);
+
+  const input = Math.max(0, (usage?.input_tokens ?? 0) - nodes.input_tokens);
+  const output = Math.max(0, (usage?.output_tokens ?? 0) - nodes.output_tokens);
+  const total = usage?.total_tokens ?? state.workflowTotalTokens ?? 0;
+
+  event.timestamp = new Date().toISOString();
+  event.latency_ms = Date.now() - t0;
+  event.request_id = state.requestId;
+  event.input_tokens = input;
+  event.output_tokens = output;
+  event.total_tokens = Math.max(0, total - nodes.total_tokens);
+  if (state.model) event.model = state.model;
+
+  if (costInfo) {
+    if (costInfo.currency) event.currency = costInfo.currency;
+    if (nodes.total_tokens > 0) {
+      // Split totals are no longer meaningful once part of the cost moved to child spans
+      event.total_cost = Math.max(0, (costInfo.total_cost ?? 0) - nodes.total_cost);
+    } else {
+      Object.assign(event, costInfo);
+    }
+  } else if (nodes.total_tokens > 0) {
+    // Usage and cost live on the node spans; don't price the remainder with fallback rates
+    event.total_cost = 0;
+  }
+
+  const streamError = error ?? state.error;
+  if (streamError) event.error = streamError;
+  return state.timer.apply(event);
+}
+
+/**
+ * Wrap a Dify streaming result so SSE events are parsed as the caller reads them.
+ *
+ * Supports a Node.js Readable (the axios `response.data` returned by
+ * dify-client, or the stream itself) and async iterables of parsed events.
+ * Only the current partial line is buffered. `onEvent` is called for each
+ * event and `onFinish` once, when the stream ends, errors or is destroyed.
+ */
+function wrapDifyStream<T>(
+  result: T,
+  onEvent: (data: Record<string, unknown>) => void,
+  onFinish: (error?: string) => void
+): T | null {
+  let finished = false;
+  const finish = (error?: string) => {
+    if (finished) return;
+    finished = true;
+    onFinish(error);
+  };
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+  const handleLine = (line: string) => {
+    if (!line.startsWith("data:")) return;
+    try {
+      onEvent(JSON.parse(line.slice(5).trim()));
+    } catch {
+      // Ignore malformed events and keep-alive pings
+    }
+  };
+  const push = (chunk: Uint8Array | string) => {
+    buffer += typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      handleLine(buffer.slice(0, newline).replace(/\r$/, ""));
+      buffer = buffer.slice(newline + 1);
+    }
+  };
+  const flush = () => {
+    buffer += decoder.decode();
+    if (buffer) handleLine(buffer.replace(/\r$/, ""));
+    buffer = "";
+  };
+
+  const isReadable = (value: unknown): value is Readable =>
+    !!value && typeof (value as Readable).pipe === "function" && typeof (value as Readable).on === "function";
+
+  const tap = (source: Readable): Readable => {
+    const tapped = new Transform({
+      transform(chunk, _encoding, callback) {
+        push(chunk);
+        callback(null, chunk);
+      },
+      flush(callback) {
+        flush();
+        callback();
+      },
+    });
+    pipeline(source, tapped, (error) => {
+      if (!error) return finish();
+      finish(error.code === "ERR_STREAM_PREMATURE_CLOSE" ? "Stream aborted" : error.message);
+    });
+    return tapped;
+  };
+
+  // axios response: { data: Readable, ... }
+  const container = result as Record<string, unknown>;
+  if (container && typeof container === "object" && isReadable(container.data)) {
+    container.data = tap(container.data);
+    return result;
+  }
+  if (isReadable(result)) {
+    return tap(result) as T;
+  }
+
+  // Async iterable of parsed events (or raw SSE chunks)
+  if (result && typeof result === "object" && Symbol.asyncIterator in result) {
+    const iterator = (result as AsyncIterable<unknown>)[Symbol.asyncIterator]();
+    const meteredIterator: AsyncIterator<unknown> = {
+      async next() {
+        try {
+          const next = await iterator.next();
+          if (next.done) {
+            flush();
+            finish();
+          } else if (typeof next.value === "string" || next.value instanceof Uint8Array) {
+            push(next.value);
+          } else if (next.value && typeof next.value === "object") {
+            onEvent(next.value as Record<string, unknown>);
+          }
+          return next;
+        } catch (error) {
+          finish(error instanceof Error ? error.message : String(error));
+          throw error;
+        }
+      },
+      async return(value?: unknown) {
+        finish("Stream aborted");
+        return iterator.return ? iterator.return(value) : { done: true, value: undefined };
+      },
+    };
+    return {
+      ...result,
+      [Symbol.asyncIterator]() {
+        return meteredIterator;
+      },
+    } as T;
+  }
+
+  return null;
+}
+
 /**
  * Create wrapper for Dify client methods
  */
@@ -337,8 +646,37 @@ function wrapDifyMethod(
 
       const result = await originalFn.apply(this, finalArgs);
 
-      // For streaming, we would need to wrap the stream
-      // For now, handle non-streaming case
+      if (isStreaming && result) {
+        // Capture call relationship now; the stream may be consumed in another context
+        const event = buildFlatEvent(spanId, methodType, true, 0, null, null, null, null, meterOptions);
+        const state: DifyStreamState = {
+          usage: null,
+          workflowTotalTokens: null,
+          requestId: null,
+          model: null,
+          timer: createStreamTimer(t0),
+          error: null,
+          nodeTotals: { input_tokens: 0, output_tokens: 0, total_tokens: 0, total_cost: 0 },
+        };
+
+        const wrapped = wrapDifyStream(
+          result,
+          (data) => handleDifyStreamEvent(data, state, event, meterOptions),
+          (error) => {
+            safeEmit(meterOptions, finalizeStreamEvent(event, state, t0, error)).catch(() => {
+              // Emitter failures must not break the caller's stream
+            });
+          }
+        );
+        if (wrapped) {
+          return wrapped;
+        }
+
+        // Unrecognized stream shape: emit what we know
+        await safeEmit(meterOptions, finalizeStreamEvent(event, state, t0));
+        return result;
+      }
+
       if (!isStreaming && result) {
         const usage = extractUsageFromResponse(result);
         const normalizedUsage = normalizeDifyUsage(usage);
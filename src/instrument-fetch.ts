@@ -7,16 +7,27 @@
 
 import { randomUUID } from "crypto";
 import { getCallRelationship, getFullAgentStack, getCurrentContext } from "./context.js";
+import { priceMetricEvent } from "./pricing.js";
+import { applyRateLimitInfo, estimateRequestTokens, parseRateLimitHeaders } from "./rate-limits.js";
+import {
+  createStreamTimer,
+  hasAnthropicStreamContent,
+  hasGeminiStreamContent,
+  hasOpenAIStreamContent,
+  type StreamTimer,
+} from "./stream-metrics.js";
 import { getControlServerUrl, type MetricEvent, type MeterOptions } from "./types.js";
+import { logger } from "./logging.js";
 import type { ControlDecision, IControlAgent } from "./control-types.js";
 import { createControlAgent, createControlAgentEmitter } from "./control-agent.js";
 
 /**
- * Safely emit a metric event, handling cases where emitMetric might be undefined
+ * Safely emit a metric event, handling cases where emitMetric might be undefined.
+ * Cost fields are filled from the pricing registry before the event is emitted.
  */
 async function safeEmit(options: MeterOptions, event: MetricEvent): Promise<void> {
   if (options.emitMetric) {
-    await options.emitMetric(event);
+    await options.emitMetric(priceMetricEvent(event, options.pricing));
   }
 }
 
@@ -27,18 +38,21 @@ let originalFetch: typeof fetch | null = null;
 let globalControlAgent: IControlAgent | null = null;
 
 /**
- * Resolve options by setting up control agent when apiKey is provided
+ * Resolve options by setting up control agent when apiKey (or a local
+ * policy file) is provided
  */
 async function resolveOptions(options: MeterOptions): Promise<MeterOptions> {
-  // Check for API key (explicit or from environment)
+  // Check for API key and local policy file (explicit or from environment)
   const apiKey = options.apiKey ?? process.env.ADEN_API_KEY;
+  const policyFile = options.policyFile ?? process.env.ADEN_POLICY_FILE;
 
-  if (apiKey) {
+  if (apiKey || policyFile || options.controlAgent) {
     // Create control agent if not already provided
     if (!options.controlAgent) {
       globalControlAgent = createControlAgent({
-        serverUrl: getControlServerUrl(options.serverUrl),
-        apiKey,
+        ...(apiKey
+          ? { serverUrl: getControlServerUrl(options.serverUrl), apiKey }
+          : { policyFile }),
         failOpen: options.failOpen ?? true,
       });
 
@@ -68,13 +82,14 @@ async function resolveOptions(options: MeterOptions): Promise<MeterOptions> {
     };
   }
 
-  // No API key - require emitMetric
+  // No API key or policy - require emitMetric
   if (!options.emitMetric) {
     throw new Error(
-      "aden: Either apiKey or emitMetric is required.\n" +
+      "aden: One of apiKey, policyFile or emitMetric is required.\n" +
       "  Option 1: Set ADEN_API_KEY environment variable\n" +
       "  Option 2: Pass apiKey in options\n" +
-      "  Option 3: Pass emitMetric for custom handling"
+      "  Option 3: Pass policyFile (or set ADEN_POLICY_FILE) to enforce a local policy\n" +
+      "  Option 4: Pass emitMetric for custom handling"
     );
   }
 
@@ -123,27 +138,38 @@ function extractUsage(provider: string, responseBody: unknown): {
   output: number;
   cached: number;
   reasoning: number;
+  cacheWrite?: number;
+  cacheWrite1h?: number;
 } {
   try {
     const res = responseBody as Record<string, unknown>;
 
     if (provider === "openai") {
+      // Chat Completions shape, falling back to Responses API shape
       const usage = res?.usage as Record<string, unknown>;
+      const inputDetails = (usage?.prompt_tokens_details ?? usage?.input_tokens_details) as Record<string, unknown>;
+      const outputDetails = (usage?.completion_tokens_details ?? usage?.output_tokens_details) as Record<string, unknown>;
       return {
-        input: (usage?.prompt_tokens as number) ?? 0,
-        output: (usage?.completion_tokens as number) ?? 0,
-        cached: (usage?.prompt_tokens_details as Record<string, unknown>)?.cached_tokens as number ?? 0,
-        reasoning: (usage?.completion_tokens_details as Record<string, unknown>)?.reasoning_tokens as number ?? 0,
+        input: (usage?.prompt_tokens as number) ?? (usage?.input_tokens as number) ?? 0,
+        output: (usage?.completion_tokens as number) ?? (usage?.output_tokens as number) ?? 0,
+        cached: (inputDetails?.cached_tokens as number) ?? 0,
+        reasoning: (outputDetails?.reasoning_tokens as number) ?? 0,
       };
     }
 
     if (provider === "anthropic") {
+      // Cache reads and writes are reported apart from input_tokens; fold them in
       const usage = res?.usage as Record<string, unknown>;
+      const cacheCreation = usage?.cache_creation as Record<string, unknown> | undefined;
+      const cached = (usage?.cache_read_input_tokens as number) ?? 0;
+      const cacheWrite = (usage?.cache_creation_input_tokens as number) ?? 0;
       return {
-        input: (usage?.input_tokens as number) ?? 0,
+        input: ((usage?.input_tokens as number) ?? 0) + cached + cacheWrite,
         output: (usage?.output_tokens as number) ?? 0,
-        cached: (usage?.cache_read_input_tokens as number) ?? 0,
+        cached,
         reasoning: 0,
+        cacheWrite,
+        cacheWrite1h: (cacheCreation?.ephemeral_1h_input_tokens as number) ?? 0,
       };
     }
 
@@ -153,7 +179,7 @@ function extractUsage(provider: string, responseBody: unknown): {
         input: (usage?.promptTokenCount as number) ?? 0,
         output: (usage?.candidatesTokenCount as number) ?? 0,
         cached: (usage?.cachedContentTokenCount as number) ?? 0,
-        reasoning: 0,
+        reasoning: (usage?.thoughtsTokenCount as number) ?? 0,
       };
     }
   } catch {
@@ -163,6 +189,206 @@ function extractUsage(provider: string, responseBody: unknown): {
   return { input: 0, output: 0, cached: 0, reasoning: 0 };
 }
 
+/**
+ * Usage collected from a streamed (SSE) response
+ */
+interface StreamUsage {
+  usage: ReturnType<typeof extractUsage>;
+  /** Model reported by the stream (if any) */
+  model: string | null;
+  /** Chunk timing (time to first token, throughput) */
+  timer: StreamTimer;
+}
+
+/**
+ * Create an incremental stream parser that collects usage for a provider.
+ *
+ * Only the current partial line is buffered: each complete `data:` payload is
+ * parsed and discarded, so long streams are never held in memory. Bodies that
+ * start with `[` are read as a streamed JSON array instead (Gemini
+ * `:streamGenerateContent` without `alt=sse`), buffering one element at a time.
+ * - OpenAI: final chunk `usage` (stream_options.include_usage) or `response.completed`
+ * - Anthropic: `message_start` (input/cache) and `message_delta` (cumulative output)
+ * - Gemini: `usageMetadata` on each chunk (cumulative, last one wins)
+ */
+function createStreamUsageParser(provider: Provider, t0: number): {
+  push(chunk: Uint8Array): void;
+  finish(): StreamUsage;
+} {
+  const decoder = new TextDecoder();
+  const result: StreamUsage = {
+    usage: { input: 0, output: 0, cached: 0, reasoning: 0 },
+    model: null,
+    timer: createStreamTimer(t0),
+  };
+  let buffer = "";
+  let format: "sse" | "json-array" | null = null;
+  // JSON array scanner state
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  const handleEvent = (data: Record<string, unknown>) => {
+    if (provider === "openai") {
+      result.timer.chunk(hasOpenAIStreamContent(data));
+      if (typeof data.type === "string") {
+        // Responses API events
+        if (data.type === "response.completed" || data.type === "response.incomplete") {
+          const response = data.response as Record<string, unknown> | undefined;
+          result.model = (response?.model as string) ?? result.model;
+          if (response?.usage) result.usage = extractUsage(provider, response);
+        }
+        return;
+      }
+
+      // Chat Completions chunks
+      if (data.model) result.model = data.model as string;
+      if (data.usage) result.usage = extractUsage(provider, data);
+      return;
+    }
+
+    if (provider === "anthropic") {
+      result.timer.chunk(hasAnthropicStreamContent(data));
+      if (data.type === "message_start") {
+        const message = data.message as Record<string, unknown> | undefined;
+        result.model = (message?.model as string) ?? result.model;
+        if (message?.usage) result.usage = extractUsage(provider, message);
+      } else if (data.type === "message_delta") {
+        const usage = data.usage as Record<string, unknown> | undefined;
+        // output_tokens is cumulative; input counts only appear on message_start
+        if (usage?.output_tokens !== undefined) result.usage.output = usage.output_tokens as number;
+      }
+      return;
+    }
+
+    if (provider === "gemini") {
+      result.timer.chunk(hasGeminiStreamContent(data));
+      if (data.modelVersion) result.model = data.modelVersion as string;
+      if (data.usageMetadata) result.usage = extractUsage(provider, data);
+    }
+  };
+
+  const handlePayload = (payload: string) => {
+    try {
+      handleEvent(JSON.parse(payload));
+    } catch {
+      // Ignore malformed events
+    }
+  };
+
+  const handleLine = (line: string) => {
+    if (!line.startsWith("data:")) return;
+    const payload = line.slice(5).trim();
+    if (!payload || payload === "[DONE]") return;
+    handlePayload(payload);
+  };
+
+  // Hand each top-level array element to handlePayload as soon as it closes
+  const scanJsonArray = (text: string) => {
+    let start = depth > 0 ? 0 : -1;
+    for (let i = 0; i < text.length; i++) {
+      const c = text[i];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (c === "\\") escaped = true;
+        else if (c === '"') inString = false;
+      } else if (c === '"') {
+        inString = true;
+      } else if (c === "{") {
+        if (depth++ === 0) start = i;
+      } else if (c === "}" && depth > 0 && --depth === 0) {
+        handlePayload(buffer + text.slice(start, i + 1));
+        buffer = "";
+        start = -1;
+      }
+    }
+    if (depth > 0) buffer += text.slice(start);
+  };
+
+  const drain = () => {
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      handleLine(buffer.slice(0, newline).replace(/\r$/, ""));
+      buffer = buffer.slice(newline + 1);
+    }
+  };
+
+  const feed = (text: string) => {
+    if (format === null) {
+      const start = text.trimStart();
+      if (!start) return;
+      format = start.startsWith("[") ? "json-array" : "sse";
+    }
+    if (format === "json-array") {
+      scanJsonArray(text);
+    } else {
+      buffer += text;
+      drain();
+    }
+  };
+
+  return {
+    push(chunk) {
+      feed(decoder.decode(chunk, { stream: true }));
+    },
+    finish() {
+      feed(decoder.decode());
+      // A truncated array element is dropped; a last SSE line may lack its newline
+      if (format === "sse" && buffer) handleLine(buffer.replace(/\r$/, ""));
+      buffer = "";
+      return result;
+    },
+  };
+}
+
+/**
+ * Wrap a streamed response body so usage is collected as the caller reads it.
+ *
+ * Chunks are passed through untouched before being parsed, and the metric is
+ * emitted in the background once the stream ends, errors or is cancelled, so
+ * the caller's reads are never delayed.
+ */
+function createMeteredBody(
+  body: ReadableStream<Uint8Array>,
+  provider: Provider,
+  t0: number,
+  onFinish: (stream: StreamUsage, error?: string) => Promise<void>
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  const parser = createStreamUsageParser(provider, t0);
+  let finished = false;
+
+  const finish = (error?: string) => {
+    if (finished) return;
+    finished = true;
+    onFinish(parser.finish(), error).catch(() => {
+      // Emitter failures must not break the caller's stream
+    });
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          finish();
+          return;
+        }
+        controller.enqueue(value);
+        parser.push(value);
+      } catch (error) {
+        controller.error(error);
+        finish(error instanceof Error ? error.message : String(error));
+      }
+    },
+    async cancel(reason) {
+      finish(reason instanceof Error ? `Stream aborted: ${reason.message}` : "Stream aborted");
+      await reader.cancel(reason);
+    },
+  });
+}
+
 /**
  * Sleep helper for throttling
  */
@@ -171,13 +397,15 @@ function sleep(ms: number): Promise<void> {
 }
 
 /**
- * Get control decision from agent if available
+ * Get control decision from agent if available. Throttle capacity is
+ * reserved under spanId and released by the metric event of that span.
  */
 async function getControlDecision(
   options: MeterOptions,
   provider: Provider,
   model: string,
-  spanId: string
+  spanId: string,
+  body: unknown
 ): Promise<{ decision: ControlDecision; originalModel: string }> {
   const originalModel = model;
 
@@ -190,6 +418,8 @@ async function getControlDecision(
     context_id: ctx.traceId,
     provider,
     model,
+    estimated_input_tokens: body && typeof body === "object" ? estimateRequestTokens(body as Record<string, unknown>) : 0,
+    span_id: spanId,
     metadata: options.requestMetadata,
   });
 
@@ -229,7 +459,7 @@ function buildMetricEvent(
   model: string,
   stream: boolean,
   latencyMs: number,
-  usage: { input: number; output: number; cached: number; reasoning: number },
+  usage: ReturnType<typeof extractUsage>,
   _options: MeterOptions,
   relationship: ReturnType<typeof getCallRelationship> | null,
   error?: string
@@ -251,6 +481,11 @@ function buildMetricEvent(
     reasoning_tokens: usage.reasoning,
   };
 
+  if (usage.cacheWrite) {
+    event.cache_write_tokens = usage.cacheWrite;
+    if (usage.cacheWrite1h) event.cache_write_1h_tokens = usage.cacheWrite1h;
+  }
+
   if (error) {
     event.error = error;
   }
@@ -319,7 +554,9 @@ export async function instrumentFetch(options: MeterOptions): Promise<boolean> {
       }
     }
 
-    const isStream = (requestBody as Record<string, unknown>)?.stream === true;
+    // Gemini streams via the :streamGenerateContent endpoint rather than a body flag
+    const isStream = (requestBody as Record<string, unknown>)?.stream === true ||
+      (provider === "gemini" && /:streamGenerateContent/.test(url));
     let model = extractModel(provider, url, requestBody, null);
 
     // Capture call relationship BEFORE the fetch (preserves call stack)
@@ -332,7 +569,8 @@ export async function instrumentFetch(options: MeterOptions): Promise<boolean> {
       globalOptions!,
       provider,
       model,
-      spanId
+      spanId,
+      requestBody
     );
 
     // Apply control decision
@@ -351,6 +589,8 @@ export async function instrumentFetch(options: MeterOptions): Promise<boolean> {
           relationship,
           `Blocked: ${decision.reason ?? "Policy violation"}`
         );
+        // Never sent, so it holds no throttle slot
+        blockedEvent.metadata = { ...blockedEvent.metadata, blocked: "true" };
         await safeEmit(globalOptions!, blockedEvent);
 
         // Also report to control agent
@@ -367,7 +607,12 @@ export async function instrumentFetch(options: MeterOptions): Promise<boolean> {
         break;
 
       case "degrade":
-        if (decision.degradeToModel) {
+        if (decision.degradeToProvider && decision.degradeToProvider !== provider) {
+          // Raw HTTP calls are not translated to another provider's API
+          logger.warn(
+            `Cannot degrade ${provider} ${model} to ${decision.degradeToProvider} ${decision.degradeToModel}; keeping the original model`
+          );
+        } else if (decision.degradeToModel) {
           model = decision.degradeToModel;
           requestBody = applyModelDegradation(requestBody, decision.degradeToModel);
           // Update the request init with new body
@@ -383,14 +628,13 @@ export async function instrumentFetch(options: MeterOptions): Promise<boolean> {
 
     try {
       const response = await originalFetch!(input, modifiedInit);
-
-      // Clone response to read body without consuming it
-      const clonedResponse = response.clone();
+      const rateLimit = parseRateLimitHeaders(response.headers);
 
       // For non-streaming responses, we can read the body
       if (!isStream && response.ok) {
         try {
-          const responseBody = await clonedResponse.json();
+          // Clone response to read body without consuming it
+          const responseBody = await response.clone().json();
           const model = extractModel(provider, url, requestBody, responseBody);
           const usage = extractUsage(provider, responseBody);
 
@@ -405,7 +649,7 @@ export async function instrumentFetch(options: MeterOptions): Promise<boolean> {
             relationship
           );
 
-          await safeEmit(globalOptions!, event);
+          await safeEmit(globalOptions!, applyRateLimitInfo(event, rateLimit));
         } catch {
           // Failed to parse response, still emit basic metric
           const model = extractModel(provider, url, requestBody, null);
@@ -419,62 +663,37 @@ export async function instrumentFetch(options: MeterOptions): Promise<boolean> {
             globalOptions!,
             relationship
           );
-          await safeEmit(globalOptions!, event);
+          await safeEmit(globalOptions!, applyRateLimitInfo(event, rateLimit));
         }
       } else if (isStream && response.ok && response.body) {
-        // For streaming, wrap the body to capture when stream ends
-        const model = extractModel(provider, url, requestBody, null);
-        const originalBody = response.body;
-
-        let streamedData = "";
-        const transformStream = new TransformStream({
-          transform(chunk, controller) {
-            // Collect streamed data for final parsing
-            const text = new TextDecoder().decode(chunk);
-            streamedData += text;
-            controller.enqueue(chunk);
-          },
-          async flush() {
-            // Stream complete, try to extract final usage from SSE data
-            let usage = { input: 0, output: 0, cached: 0, reasoning: 0 };
-
-            try {
-              // Look for usage in SSE events (OpenAI format)
-              const lines = streamedData.split("\n");
-              for (const line of lines.reverse()) {
-                if (line.startsWith("data: ") && !line.includes("[DONE]")) {
-                  const data = JSON.parse(line.slice(6));
-                  if (data.usage) {
-                    usage = extractUsage(provider, data);
-                    break;
-                  }
-                }
-              }
-            } catch {
-              // Ignore parsing errors
-            }
-
-            const event = buildMetricEvent(
-              spanId,
-              provider,
-              model,
-              true,
-              Date.now() - t0,
-              usage,
-              globalOptions!,
-              relationship
-            );
-            await safeEmit(globalOptions!, event);
-          },
+        // For streaming, parse SSE events as the caller reads them
+        const requestModel = extractModel(provider, url, requestBody, null);
+
+        const meteredBody = createMeteredBody(response.body, provider, t0, async (stream, error) => {
+          const event = buildMetricEvent(
+            spanId,
+            provider,
+            requestModel !== "unknown" ? requestModel : stream.model ?? requestModel,
+            true,
+            Date.now() - t0,
+            stream.usage,
+            globalOptions!,
+            relationship,
+            error
+          );
+          await safeEmit(globalOptions!, stream.timer.apply(applyRateLimitInfo(event, rateLimit)));
         });
 
-        // Return new response with transformed body
-        return new Response(originalBody.pipeThrough(transformStream), {
+        // Return new response with metered body
+        return new Response(meteredBody, {
           status: response.status,
           statusText: response.statusText,
           headers: response.headers,
         });
-      } else if (!response.ok) {
+      } else if (response.ok) {
+        // A stream without a body: no event reports this span
+        globalOptions?.controlAgent?.releaseAdmission?.(spanId);
+      } else {
         // Error response
         const model = extractModel(provider, url, requestBody, null);
         const event = buildMetricEvent(
@@ -488,7 +707,7 @@ export async function instrumentFetch(options: MeterOptions): Promise<boolean> {
           relationship,
           `HTTP ${response.status}: ${response.statusText}`
         );
-        await safeEmit(globalOptions!, event);
+        await safeEmit(globalOptions!, applyRateLimitInfo(event, rateLimit));
       }
 
       return response;
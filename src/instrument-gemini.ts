@@ -7,15 +7,18 @@
 
 import { randomUUID } from "crypto";
 import { getCallRelationship, getFullAgentStack } from "./context.js";
+import { priceMetricEvent } from "./pricing.js";
+import { createStreamTimer, hasGeminiStreamContent } from "./stream-metrics.js";
 import type { MetricEvent, MeterOptions, BeforeRequestContext, BeforeRequestResult } from "./types.js";
 import { RequestCancelledError } from "./types.js";
 
 /**
- * Safely emit a metric event, handling cases where emitMetric might be undefined
+ * Safely emit a metric event, handling cases where emitMetric might be undefined.
+ * Cost fields are filled from the pricing registry before the event is emitted.
  */
 async function safeEmit(options: MeterOptions, event: MetricEvent): Promise<void> {
   if (options.emitMetric) {
-    await options.emitMetric(event);
+    await options.emitMetric(priceMetricEvent(event, options.pricing));
   }
 }
 
@@ -138,6 +141,7 @@ async function executeBeforeRequestHook(
 
   const context: BeforeRequestContext = {
     model: modelName,
+    provider: "gemini",
     stream: false,
     spanId,
     traceId: spanId,
@@ -252,11 +256,13 @@ function wrapGenerateContentStream(
 
       if (originalStream && Symbol.asyncIterator in originalStream) {
         let metricsEmitted = false;
+        const timer = createStreamTimer(t0);
 
         // Create a wrapped stream generator that emits metrics after completion
         async function* wrappedStreamGenerator() {
           try {
             for await (const chunk of originalStream) {
+              timer.chunk(hasGeminiStreamContent(chunk));
               yield chunk;
             }
           } finally {
@@ -276,7 +282,7 @@ function wrapGenerateContentStream(
               }
 
               const event = buildFlatEvent(spanId, model, true, Date.now() - t0, usageMetadata, options);
-              await safeEmit(options, event);
+              await safeEmit(options, timer.apply(event));
             }
           }
         }
@@ -375,11 +381,13 @@ function wrapSendMessageStream(
 
       if (originalStream && Symbol.asyncIterator in originalStream) {
         let metricsEmitted = false;
+        const timer = createStreamTimer(t0);
 
         // Create a wrapped stream generator that emits metrics after completion
         async function* wrappedStreamGenerator() {
           try {
             for await (const chunk of originalStream) {
+              timer.chunk(hasGeminiStreamContent(chunk));
               yield chunk;
             }
           } finally {
@@ -399,7 +407,7 @@ function wrapSendMessageStream(
               }
 
               const event = buildFlatEvent(spanId, model, true, Date.now() - t0, usageMetadata, options);
-              await safeEmit(options, event);
+              await safeEmit(options, timer.apply(event));
             }
           }
         }
@@ -8,19 +8,29 @@
  *     import { GoogleGenAI } from "@google/genai";
  *     const client = new GoogleGenAI({ apiKey: "..." });
  *     await client.models.generateContent({ model: "...", contents: "..." });
+ *
+ * Explicit context caches created with `client.caches.create()` are metered
+ * as cache writes, with storage priced for the cache's lifetime.
  */
 
 import { randomUUID } from "crypto";
 import { getCallRelationship, getFullAgentStack } from "./context.js";
+import { normalizeGeminiCachedContent } from "./normalize.js";
+import { priceMetricEvent } from "./pricing.js";
+import { createStreamTimer, hasGeminiStreamContent } from "./stream-metrics.js";
+import { applyTranslationOrigin } from "./provider-translation.js";
+import { applyFallbackHop, bindFallbackHop } from "./fallback.js";
+import { logger } from "./logging.js";
 import type { MetricEvent, MeterOptions, BeforeRequestContext, BeforeRequestResult } from "./types.js";
 import { RequestCancelledError } from "./types.js";
 
 /**
- * Safely emit a metric event, handling cases where emitMetric might be undefined
+ * Safely emit a metric event, handling cases where emitMetric might be undefined.
+ * Cost fields are filled from the pricing registry before the event is emitted.
  */
 async function safeEmit(options: MeterOptions, event: MetricEvent): Promise<void> {
   if (options.emitMetric) {
-    await options.emitMetric(event);
+    await options.emitMetric(priceMetricEvent(applyFallbackHop(applyTranslationOrigin(event)), options.pricing));
   }
 }
 
@@ -31,6 +41,7 @@ let globalOptions: MeterOptions | null = null;
 // Store original methods for uninstrumentation
 let originalGenerateContent: ((...args: unknown[]) => Promise<unknown>) | null = null;
 let originalGenerateContentStream: ((...args: unknown[]) => Promise<unknown>) | null = null;
+let originalCachesCreate: ((...args: unknown[]) => Promise<unknown>) | null = null;
 
 /**
  * Normalize usage metadata from google-genai response
@@ -215,6 +226,7 @@ async function executeBeforeRequestHook(
 
   const context: BeforeRequestContext = {
     model: modelName,
+    provider: "gemini",
     stream,
     spanId,
     traceId,
@@ -228,7 +240,10 @@ async function executeBeforeRequestHook(
     throw new RequestCancelledError(result.reason, context);
   }
 
-  if (result.action === "degrade" && result.toModel) {
+  if (result.action === "degrade" && result.toProvider && result.toProvider !== "gemini") {
+    // Gemini requests are not translated to other providers
+    logger.warn(`Cannot degrade gemini ${modelName} to ${result.toProvider} ${result.toModel}; keeping the original model`);
+  } else if (result.action === "degrade" && result.toModel) {
     currentModel = result.toModel;
     kwargs.model = result.toModel;
     if (result.delayMs) {
@@ -308,6 +323,52 @@ function createSyncWrapper(
   };
 }
 
+/**
+ * Create wrapper for caches.create (explicit context caching).
+ * The whole cached content is a cache write, stored until the cache expires.
+ */
+function createCacheWrapper(
+  originalFn: (...args: unknown[]) => Promise<unknown>,
+  getOptions: () => MeterOptions | null
+): (...args: unknown[]) => Promise<unknown> {
+  return async function (this: unknown, ...args: unknown[]): Promise<unknown> {
+    const options = getOptions();
+    if (!options) {
+      return originalFn.apply(this, args);
+    }
+
+    const kwargs = (args[0] as Record<string, unknown>) ?? {};
+    const spanId = options.generateSpanId?.() ?? randomUUID();
+    const t0 = Date.now();
+    const model = extractModelFromKwargs(kwargs);
+
+    try {
+      const cachedContent = await originalFn.apply(this, args);
+
+      const usage = normalizeGeminiCachedContent(cachedContent);
+      const event = buildMetricEvent(spanId, spanId, model, false, Date.now() - t0, usage, options);
+      event.operation = "cache_create";
+      if (usage) {
+        event.cache_write_tokens = usage.cache_write_tokens;
+        if (usage.cache_storage_hours !== undefined) {
+          event.cache_storage_hours = usage.cache_storage_hours;
+        }
+      }
+      await safeEmit(options, event);
+
+      return cachedContent;
+    } catch (error) {
+      const event = buildMetricEvent(
+        spanId, spanId, model, false, Date.now() - t0, null, options,
+        error instanceof Error ? error.message : String(error)
+      );
+      event.operation = "cache_create";
+      await safeEmit(options, event);
+      throw error;
+    }
+  };
+}
+
 /**
  * Create a metered stream wrapper
  */
@@ -322,10 +383,14 @@ function createMeteredStream(
   let finalUsage: ReturnType<typeof normalizeGenaiUsage> = null;
   let metricsEmitted = false;
   let error: string | undefined;
+  const timer = createStreamTimer(t0);
+  // Read after the call returned, outside the async context of a fallback hop
+  const emit = bindFallbackHop((event: MetricEvent) => safeEmit(options, event));
 
   async function* meteredGenerator() {
     try {
       for await (const chunk of originalStream) {
+        timer.chunk(hasGeminiStreamContent(chunk));
         // Try to extract usage from chunk
         const chunkUsage = extractUsageFromResponse(chunk);
         if (chunkUsage) {
@@ -342,7 +407,7 @@ function createMeteredStream(
         const event = buildMetricEvent(
           traceId, spanId, model, true, Date.now() - t0, finalUsage, options, error
         );
-        await safeEmit(options, event);
+        await emit(timer.apply(event));
       }
     }
   }
@@ -406,6 +471,16 @@ export async function instrumentGenai(options: MeterOptions): Promise<boolean> {
       }
     }
 
+    // Explicit context caches (client.caches.create)
+    const Caches = (genaiModule as { Caches?: { prototype?: unknown } }).Caches;
+    if (Caches?.prototype) {
+      const proto = Caches.prototype as Record<string, unknown>;
+      if (typeof proto.create === "function") {
+        originalCachesCreate = proto.create as (...args: unknown[]) => Promise<unknown>;
+        proto.create = createCacheWrapper(originalCachesCreate, getOptions);
+      }
+    }
+
     // Also try to wrap on the client instance level
     // Some SDKs expose methods differently
     const Client = (genaiModule as { GoogleGenAI?: { prototype?: unknown }; Client?: { prototype?: unknown } })
@@ -487,6 +562,11 @@ export async function uninstrumentGenai(): Promise<void> {
         proto.generateContentStream = originalGenerateContentStream;
       }
     }
+
+    const Caches = (genaiModule as { Caches?: { prototype?: unknown } }).Caches;
+    if (Caches?.prototype && originalCachesCreate) {
+      (Caches.prototype as Record<string, unknown>).create = originalCachesCreate;
+    }
   } catch {
     // Ignore errors during uninstrumentation
   }
@@ -495,6 +575,7 @@ export async function uninstrumentGenai(): Promise<void> {
   globalOptions = null;
   originalGenerateContent = null;
   originalGenerateContentStream = null;
+  originalCachesCreate = null;
 
   console.log("[aden] Google GenAI SDK uninstrumented");
 }
@@ -8,10 +8,24 @@
 import { randomUUID } from "crypto";
 import { normalizeUsage } from "./normalize.js";
 import { getCallRelationship, getFullAgentStack } from "./context.js";
+import { priceMetricEvent } from "./pricing.js";
+import { createStreamTimer, hasOpenAIStreamContent } from "./stream-metrics.js";
+import { applyRateLimitInfo, readRateLimitInfo } from "./rate-limits.js";
+import { applyRetryInfo, patchRetryTracking, runWithAttemptTracking, type RequestAttempt } from "./retry-tracking.js";
+import {
+  applyTranslationOrigin,
+  callTranslated,
+  crossProviderParams,
+  getCrossProviderTarget,
+} from "./provider-translation.js";
+import { applyFallbackHop, bindFallbackHop, classifyFallbackError, classifyFallbackResponse, runFallbackChain } from "./fallback.js";
+import { applyCacheHit } from "./response-cache.js";
 import type {
   MetricEvent,
+  MetricOperation,
   MeterOptions,
   NormalizedUsage,
+  RateLimitInfo,
   ToolCallMetric,
   BeforeRequestContext,
   BeforeRequestResult,
@@ -19,11 +33,12 @@ import type {
 import { RequestCancelledError } from "./types.js";
 
 /**
- * Safely emit a metric event, handling cases where emitMetric might be undefined
+ * Safely emit a metric event, handling cases where emitMetric might be undefined.
+ * Cost fields are filled from the pricing registry before the event is emitted.
  */
 async function safeEmit(options: MeterOptions, event: MetricEvent): Promise<void> {
   if (options.emitMetric) {
-    await options.emitMetric(event);
+    await options.emitMetric(priceMetricEvent(applyFallbackHop(applyTranslationOrigin(event)), options.pricing));
   }
 }
 
@@ -32,6 +47,7 @@ async function safeEmit(options: MeterOptions, event: MetricEvent): Promise<void
  */
 function buildFlatEvent(
   spanId: string,
+  operation: MetricOperation,
   params: Record<string, unknown>,
   stream: boolean,
   latencyMs: number,
@@ -52,6 +68,7 @@ function buildFlatEvent(
     request_id: requestId,
     provider: "openai",
     model: params.model as string,
+    operation,
     stream,
     timestamp: new Date().toISOString(),
     latency_ms: latencyMs,
@@ -114,6 +131,38 @@ let globalOptions: MeterOptions | null = null;
 // Store original methods for uninstrumentation
 let originalResponsesCreate: ((...args: unknown[]) => unknown) | null = null;
 let originalChatCreate: ((...args: unknown[]) => unknown) | null = null;
+// Embeddings, images, audio and moderation methods (prototype, method name, original)
+const patchedOperations: Array<{
+  proto: Record<string, unknown>;
+  method: string;
+  original: (...args: unknown[]) => unknown;
+}> = [];
+// Removes the attempt recorder from the client's fetchWithTimeout
+let restoreRetryTracking: (() => void) | null = null;
+
+/**
+ * Non-chat methods to meter: [class path on the OpenAI export, method, operation]
+ */
+const OPERATION_METHODS: Array<[string[], string, MetricOperation]> = [
+  [["Embeddings"], "create", "embedding"],
+  [["Images"], "generate", "image_generation"],
+  [["Images"], "edit", "image_edit"],
+  [["Images"], "createVariation", "image_variation"],
+  [["Audio", "Transcriptions"], "create", "transcription"],
+  [["Audio", "Translations"], "create", "translation"],
+  [["Audio", "Speech"], "create", "speech"],
+  [["Moderations"], "create", "moderation"],
+];
+
+/**
+ * Models the API uses when the request omits one
+ */
+const DEFAULT_OPERATION_MODELS: Partial<Record<MetricOperation, string>> = {
+  image_generation: "dall-e-2",
+  image_edit: "dall-e-2",
+  image_variation: "dall-e-2",
+  moderation: "omni-moderation-latest",
+};
 
 /**
  * Extract request ID from response
@@ -188,14 +237,20 @@ function extractToolCalls(response: unknown): ToolCallMetric[] {
 function createMeteredStream<T extends AsyncIterable<unknown>>(
   stream: T,
   spanId: string,
+  operation: MetricOperation,
   params: Record<string, unknown>,
   t0: number,
-  meterOptions: MeterOptions
+  meterOptions: MeterOptions,
+  rateLimit: RateLimitInfo | null,
+  attempts: RequestAttempt[]
 ): T {
   const originalIterator = stream[Symbol.asyncIterator]();
   let finalUsage: NormalizedUsage | null = null;
   let requestId: string | null = null;
   const toolCalls: ToolCallMetric[] = [];
+  const timer = createStreamTimer(t0);
+  // Read after the call returned, outside the async context of a fallback hop
+  const emit = bindFallbackHop((event: MetricEvent) => safeEmit(meterOptions, event));
 
   const meteredIterator: AsyncIterator<unknown> = {
     async next() {
@@ -203,6 +258,7 @@ function createMeteredStream<T extends AsyncIterable<unknown>>(
 
       if (!result.done && result.value) {
         const event = result.value as Record<string, unknown>;
+        timer.chunk(hasOpenAIStreamContent(event));
 
         if (!requestId) {
           requestId = extractRequestId(event);
@@ -218,6 +274,9 @@ function createMeteredStream<T extends AsyncIterable<unknown>>(
           if (meterOptions.trackToolCalls !== false) {
             toolCalls.push(...extractToolCalls(response));
           }
+        } else if (event.usage) {
+          // Chat Completions: final chunk carries usage (stream_options.include_usage)
+          finalUsage = normalizeUsage(event.usage);
         }
 
         if (
@@ -233,20 +292,20 @@ function createMeteredStream<T extends AsyncIterable<unknown>>(
 
       if (result.done) {
         const metricEvent = buildFlatEvent(
-          spanId, params, true, Date.now() - t0, finalUsage,
+          spanId, operation, params, true, Date.now() - t0, finalUsage,
           requestId, meterOptions, toolCalls.length > 0 ? toolCalls : undefined
         );
-        await safeEmit(meterOptions, metricEvent);
+        await emit(timer.apply(applyRetryInfo(applyRateLimitInfo(metricEvent, rateLimit), attempts)));
       }
 
       return result;
     },
     async return(value?: unknown) {
       const metricEvent = buildFlatEvent(
-        spanId, params, true, Date.now() - t0, finalUsage,
+        spanId, operation, params, true, Date.now() - t0, finalUsage,
         requestId, meterOptions, toolCalls.length > 0 ? toolCalls : undefined
       );
-      await safeEmit(meterOptions, metricEvent);
+      await emit(timer.apply(applyRetryInfo(applyRateLimitInfo(metricEvent, rateLimit), attempts)));
 
       if (originalIterator.return) {
         return originalIterator.return(value);
@@ -255,10 +314,10 @@ function createMeteredStream<T extends AsyncIterable<unknown>>(
     },
     async throw(error?: unknown) {
       const metricEvent = buildFlatEvent(
-        spanId, params, true, Date.now() - t0, null, requestId, meterOptions, undefined,
+        spanId, operation, params, true, Date.now() - t0, null, requestId, meterOptions, undefined,
         error instanceof Error ? error.message : String(error)
       );
-      await safeEmit(meterOptions, metricEvent);
+      await emit(timer.apply(applyRetryInfo(applyRateLimitInfo(metricEvent, rateLimit), attempts)));
 
       if (originalIterator.throw) {
         return originalIterator.throw(error);
@@ -297,6 +356,7 @@ async function executeBeforeRequestHook(
 
   const context: BeforeRequestContext = {
     model: params.model as string,
+    provider: "openai",
     stream: !!params.stream,
     spanId,
     traceId: spanId,
@@ -320,6 +380,10 @@ async function executeBeforeRequestHook(
     if (result.delayMs) {
       await sleep(result.delayMs);
     }
+    // Another provider: translated and served by its client (see wrapCreateMethod)
+    if (result.toProvider && result.toProvider !== "openai") {
+      return crossProviderParams("openai", params, result.toProvider, result.toModel, meterOptions.degradeClients);
+    }
     // Return modified params with degraded model
     return { ...params, model: result.toModel };
   }
@@ -342,22 +406,47 @@ async function executeBeforeRequestHook(
  */
 function wrapCreateMethod(
   originalFn: (...args: unknown[]) => unknown,
+  operation: MetricOperation,
   getOptions: () => MeterOptions
 ) {
-  return async function (
+  return async function metered(
     this: unknown,
     params: Record<string, unknown>,
     ...rest: unknown[]
-  ) {
+  ): Promise<unknown> {
     const meterOptions = getOptions();
     const spanId = meterOptions.generateSpanId?.() ?? randomUUID();
     const t0 = Date.now();
+    const attempts: RequestAttempt[] = [];
+    let finalParams = params;
 
     try {
       // Execute beforeRequest hook (may throttle, cancel, or degrade)
-      const finalParams = await executeBeforeRequestHook(params, spanId, meterOptions);
+      finalParams = await executeBeforeRequestHook(params, spanId, meterOptions);
+
+      // Degraded to another provider: its instrumentation meters the call.
+      // Not awaited, so a failure is not metered a second time here. No event
+      // carries this span, so its throttle admission is released here.
+      const target = getCrossProviderTarget(finalParams);
+      if (target) {
+        return callTranslated("openai", finalParams, target, params.model as string, meterOptions.degradeClients).finally(
+          () => meterOptions.controlAgent?.releaseAdmission?.(spanId)
+        );
+      }
+
+      // Served from the response cache: the policy still applies, only the
+      // provider call is skipped. The hit event releases the admission.
+      const cacheKey = meterOptions.responseCache?.keyFor(`openai:${operation}`, finalParams) ?? null;
+      const cached = cacheKey ? await meterOptions.responseCache!.get(cacheKey) : undefined;
+      if (cached) {
+        const event = buildFlatEvent(spanId, operation, finalParams, false, Date.now() - t0, null, null, meterOptions);
+        await safeEmit(meterOptions, applyCacheHit(event, cached, meterOptions.pricing));
+        return cached.response;
+      }
 
-      const result = await originalFn.call(this, finalParams, ...rest);
+      const apiPromise = runWithAttemptTracking(attempts, () => originalFn.call(this, finalParams, ...rest));
+      const result = await apiPromise;
+      const rateLimit = await readRateLimitInfo(apiPromise);
 
       // Handle streaming
       if (
@@ -369,9 +458,12 @@ function wrapCreateMethod(
         return createMeteredStream(
           result as AsyncIterable<unknown>,
           spanId,
+          operation,
           finalParams,
           t0,
-          meterOptions
+          meterOptions,
+          rateLimit,
+          attempts
         );
       }
 
@@ -379,17 +471,136 @@ function wrapCreateMethod(
       const usage = normalizeUsage((result as Record<string, unknown>)?.usage);
       const toolCalls = meterOptions.trackToolCalls !== false ? extractToolCalls(result) : undefined;
       const event = buildFlatEvent(
-        spanId, finalParams, false, Date.now() - t0, usage,
+        spanId, operation, finalParams, false, Date.now() - t0, usage,
         extractRequestId(result), meterOptions, toolCalls
       );
+      applyRateLimitInfo(event, rateLimit);
+      applyRetryInfo(event, attempts);
+
+      await safeEmit(meterOptions, event);
+
+      // Refused by the content filter: try the policy's fallback models
+      const filtered = classifyFallbackResponse(result);
+      if (cacheKey && !filtered && finalParams.model === params.model) {
+        await meterOptions.responseCache!.set(cacheKey, result, usage);
+      }
+      const fallback = filtered &&
+        (await runFallbackChain("openai", finalParams, filtered, spanId, meterOptions, (hopParams) =>
+          metered.call(this, hopParams, ...rest)
+        ));
+      return fallback ? fallback.result : result;
+    } catch (error) {
+      const event = buildFlatEvent(
+        spanId, operation, params, false, Date.now() - t0, null, null, meterOptions, undefined,
+        error instanceof Error ? error.message : String(error)
+      );
+      applyRateLimitInfo(event, await readRateLimitInfo(error));
+      applyRetryInfo(event, attempts);
+
+      await safeEmit(meterOptions, event);
+
+      // Provider failure: try the policy's fallback models
+      const trigger = classifyFallbackError(error);
+      const fallback = trigger &&
+        (await runFallbackChain("openai", finalParams, trigger, spanId, meterOptions, (hopParams) =>
+          metered.call(this, hopParams, ...rest)
+        ));
+      if (fallback) return fallback.result;
+      throw error;
+    }
+  };
+}
+
+/**
+ * Extract token usage and non-token units for embeddings, images, audio and
+ * moderation responses
+ */
+function extractOperationUsage(
+  operation: MetricOperation,
+  params: Record<string, unknown>,
+  result: unknown
+): { usage: NormalizedUsage | null; units: Partial<MetricEvent> } {
+  const res = (result && typeof result === "object" ? result : {}) as Record<string, unknown>;
+  const rawUsage = res.usage as Record<string, unknown> | undefined;
+  const units: Partial<MetricEvent> = {};
+
+  switch (operation) {
+    case "image_generation":
+    case "image_edit":
+    case "image_variation":
+      units.image_count = Array.isArray(res.data) ? res.data.length : ((params.n as number | undefined) ?? 1);
+      if (params.size) units.image_size = params.size as string;
+      if (params.quality) units.image_quality = params.quality as string;
+      break;
+
+    case "transcription":
+    case "translation":
+      // verbose_json responses carry `duration`; whisper usage may be { type: "duration", seconds }
+      if (typeof res.duration === "number") {
+        units.audio_seconds = res.duration;
+      } else if (rawUsage?.type === "duration" && typeof rawUsage.seconds === "number") {
+        units.audio_seconds = rawUsage.seconds;
+      }
+      break;
+
+    case "speech":
+      if (typeof params.input === "string") {
+        units.character_count = params.input.length;
+      }
+      break;
+  }
+
+  const usage = rawUsage && rawUsage.type !== "duration" ? normalizeUsage(rawUsage) : null;
+  return { usage, units };
+}
+
+/**
+ * Create wrapper for embeddings, images, audio and moderation methods
+ */
+function wrapOperationMethod(
+  originalFn: (...args: unknown[]) => unknown,
+  operation: MetricOperation,
+  getOptions: () => MeterOptions
+) {
+  return async function (
+    this: unknown,
+    params: Record<string, unknown>,
+    ...rest: unknown[]
+  ) {
+    const meterOptions = getOptions();
+    const spanId = meterOptions.generateSpanId?.() ?? randomUUID();
+    const t0 = Date.now();
+    const attempts: RequestAttempt[] = [];
+    // Fill in the model the API would default to, so hooks and pricing see it
+    const fullParams = params?.model
+      ? params
+      : { ...params, model: DEFAULT_OPERATION_MODELS[operation] ?? "unknown" };
+
+    try {
+      const finalParams = await executeBeforeRequestHook(fullParams, spanId, meterOptions);
+      const apiPromise = runWithAttemptTracking(attempts, () => originalFn.call(this, finalParams, ...rest));
+      const result = await apiPromise;
+
+      const { usage, units } = extractOperationUsage(operation, finalParams, result);
+      const res = (result && typeof result === "object" ? result : {}) as Record<string, unknown>;
+      const model = (res.model as string | undefined) ?? (finalParams.model as string);
+      const event = buildFlatEvent(
+        spanId, operation, { ...finalParams, model }, false, Date.now() - t0, usage,
+        extractRequestId(result), meterOptions
+      );
+      Object.assign(event, units);
+      applyRateLimitInfo(event, await readRateLimitInfo(apiPromise));
+      applyRetryInfo(event, attempts);
 
       await safeEmit(meterOptions, event);
       return result;
     } catch (error) {
       const event = buildFlatEvent(
-        spanId, params, false, Date.now() - t0, null, null, meterOptions, undefined,
+        spanId, operation, fullParams, false, Date.now() - t0, null, null, meterOptions, undefined,
         error instanceof Error ? error.message : String(error)
       );
+      applyRateLimitInfo(event, await readRateLimitInfo(error));
+      applyRetryInfo(event, attempts);
 
       await safeEmit(meterOptions, event);
       throw error;
@@ -417,6 +628,8 @@ export async function instrumentOpenAI(options: MeterOptions): Promise<boolean>
   let Completions: any = null;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   let Responses: any = null;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let OpenAIClass: any = null;
 
   try {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -435,6 +648,7 @@ export async function instrumentOpenAI(options: MeterOptions): Promise<boolean>
     // The Responses class is used by client.responses
     Completions = OpenAI?.Chat?.Completions;
     Responses = OpenAI?.Responses;
+    OpenAIClass = OpenAI;
   } catch (e) {
     // SDK not installed
     return false;
@@ -451,6 +665,7 @@ export async function instrumentOpenAI(options: MeterOptions): Promise<boolean>
     originalResponsesCreate = Responses.prototype.create as (...args: unknown[]) => unknown;
     Responses.prototype.create = wrapCreateMethod(
       originalResponsesCreate,
+      "responses",
       () => globalOptions!
     );
   }
@@ -460,10 +675,25 @@ export async function instrumentOpenAI(options: MeterOptions): Promise<boolean>
     originalChatCreate = Completions.prototype.create as (...args: unknown[]) => unknown;
     Completions.prototype.create = wrapCreateMethod(
       originalChatCreate,
+      "chat",
       () => globalOptions!
     );
   }
 
+  // Patch embeddings, images, audio and moderation methods
+  for (const [path, method, operation] of OPERATION_METHODS) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const proto = path.reduce((cls: any, key) => cls?.[key], OpenAIClass)?.prototype;
+    if (typeof proto?.[method] !== "function") continue;
+
+    const original = proto[method] as (...args: unknown[]) => unknown;
+    patchedOperations.push({ proto, method, original });
+    proto[method] = wrapOperationMethod(original, operation, () => globalOptions!);
+  }
+
+  // Record SDK-internal retries of every call
+  restoreRetryTracking = patchRetryTracking(OpenAIClass);
+
   isInstrumented = true;
   return true;
 }
@@ -498,6 +728,13 @@ export async function uninstrumentOpenAI(): Promise<void> {
     // SDK not installed, nothing to do
   }
 
+  for (const { proto, method, original } of patchedOperations) {
+    proto[method] = original;
+  }
+  patchedOperations.length = 0;
+  restoreRetryTracking?.();
+  restoreRetryTracking = null;
+
   globalOptions = null;
   isInstrumented = false;
 }
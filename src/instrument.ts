@@ -12,6 +12,7 @@ import { instrumentDify, uninstrumentDify, isDifyInstrumented } from "./instrume
 import { createControlAgent, createControlAgentEmitter } from "./control-agent.js";
 import { getControlServerUrl, type MeterOptions, type BeforeRequestHook, type BeforeRequestContext } from "./types.js";
 import type { IControlAgent } from "./control-types.js";
+import { estimateRequestTokens } from "./rate-limits.js";
 
 /**
  * Result of instrumentation showing which SDKs were instrumented
@@ -58,8 +59,11 @@ function createControlBeforeRequestHook(
     const contextId = getContextId?.();
     const decision = await controlAgent.getDecision({
       context_id: contextId,
-      provider: "openai", // TODO: detect provider from SDK
+      provider: context.provider ?? "openai",
       model: params.model as string,
+      // Reserves token capacity; the throttle lease is released by the event with this span
+      estimated_input_tokens: estimateRequestTokens(params),
+      span_id: context.spanId,
       // Don't estimate cost - let the decision be based on current spend only
       // The server will calculate actual cost after the request
     });
@@ -71,10 +75,16 @@ function createControlBeforeRequestHook(
 
       case "throttle":
         console.log(`[aden] Request throttled: ${decision.reason}`);
-        return { action: "throttle", delayMs: decision.throttleDelayMs || 1000 };
+        return { action: "throttle", delayMs: decision.throttleDelayMs ?? 1000 };
 
       case "degrade":
-        console.log(`[aden] Model degraded: ${params.model} → ${decision.degradeToModel} (${decision.reason})`);
+        console.log(
+          `[aden] Model degraded: ${params.model} → ${
+            decision.degradeToProvider && decision.degradeToProvider !== context.provider
+              ? `${decision.degradeToProvider} `
+              : ""
+          }${decision.degradeToModel} (${decision.reason})`
+        );
         if (decision.throttleDelayMs) {
           console.log(`[aden] Request also throttled: ${decision.throttleDelayMs}ms delay`);
         }
@@ -107,18 +117,21 @@ function createControlBeforeRequestHook(
 }
 
 /**
- * Resolve options by setting up control agent when apiKey is provided
+ * Resolve options by setting up control agent when apiKey (or a local
+ * policy file) is provided
  */
 async function resolveOptions(options: MeterOptions): Promise<MeterOptions> {
-  // Check for API key (explicit or from environment)
+  // Check for API key and local policy file (explicit or from environment)
   const apiKey = options.apiKey ?? process.env.ADEN_API_KEY;
+  const policyFile = options.policyFile ?? process.env.ADEN_POLICY_FILE;
 
-  if (apiKey) {
+  if (apiKey || policyFile || options.controlAgent) {
     // Create control agent if not already provided
     if (!options.controlAgent) {
       globalControlAgent = createControlAgent({
-        serverUrl: getControlServerUrl(options.serverUrl),
-        apiKey,
+        ...(apiKey
+          ? { serverUrl: getControlServerUrl(options.serverUrl), apiKey }
+          : { policyFile }),
         failOpen: options.failOpen ?? true,
         getContextId: options.getContextId,
         onAlert: options.onAlert,
@@ -158,13 +171,14 @@ async function resolveOptions(options: MeterOptions): Promise<MeterOptions> {
     };
   }
 
-  // No API key - require emitMetric
+  // No API key or policy - require emitMetric
   if (!options.emitMetric) {
     throw new Error(
-      "aden: Either apiKey or emitMetric is required.\n" +
+      "aden: One of apiKey, policyFile or emitMetric is required.\n" +
       "  Option 1: Set ADEN_API_KEY environment variable\n" +
       "  Option 2: Pass apiKey in options\n" +
-      "  Option 3: Pass emitMetric for custom handling"
+      "  Option 3: Pass policyFile (or set ADEN_POLICY_FILE) to enforce a local policy\n" +
+      "  Option 4: Pass emitMetric for custom handling"
     );
   }
 
@@ -237,7 +251,10 @@ export async function instrument(options: MeterOptions): Promise<Instrumentation
 /**
  * Remove instrumentation from all LLM SDKs.
  *
- * Restores original behavior for all clients.
+ * Restores original behavior for all clients and disconnects the control
+ * agent. Emitters and transports are not flushed: they belong to the caller
+ * and may be used again after the next instrument(). Call shutdown() first
+ * to flush them before the process exits.
  */
 export async function uninstrument(): Promise<void> {
   // Disconnect control agent if connected
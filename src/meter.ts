@@ -12,13 +12,16 @@ import type {
 } from "./types.js";
 import { RequestCancelledError } from "./types.js";
 import { getCallRelationship, getFullAgentStack } from "./context.js";
+import { priceMetricEvent } from "./pricing.js";
+import { createStreamTimer, hasOpenAIStreamContent } from "./stream-metrics.js";
 
 /**
- * Safely emit a metric event, handling cases where emitMetric might be undefined
+ * Safely emit a metric event, handling cases where emitMetric might be undefined.
+ * Cost fields are filled from the pricing registry before the event is emitted.
  */
 async function safeEmit(options: MeterOptions, event: MetricEvent): Promise<void> {
   if (options.emitMetric) {
-    await options.emitMetric(event);
+    await options.emitMetric(priceMetricEvent(event, options.pricing));
   }
 }
 
@@ -233,6 +236,7 @@ function buildBeforeRequestContext(
 ): BeforeRequestContext {
   return {
     model: params.model as string,
+    provider: "openai",
     stream: !!params.stream,
     spanId,
     traceId,
@@ -293,6 +297,7 @@ function createMeteredStream<T extends AsyncIterable<unknown>>(
   let finalUsage: NormalizedUsage | null = null;
   let requestId: string | null = null;
   const toolCalls: ToolCallMetric[] = [];
+  const timer = createStreamTimer(t0);
 
   const meteredIterator: AsyncIterator<unknown> = {
     async next() {
@@ -300,6 +305,7 @@ function createMeteredStream<T extends AsyncIterable<unknown>>(
 
       if (!result.done && result.value) {
         const event = result.value as Record<string, unknown>;
+        timer.chunk(hasOpenAIStreamContent(event));
 
         // Extract request ID from any event that has it
         if (!requestId) {
@@ -318,6 +324,9 @@ function createMeteredStream<T extends AsyncIterable<unknown>>(
           if (meterOptions.trackToolCalls !== false) {
             toolCalls.push(...extractToolCalls(response));
           }
+        } else if (event.usage) {
+          // Chat Completions: final chunk carries usage (stream_options.include_usage)
+          finalUsage = normalizeUsage(event.usage);
         }
 
         // Track tool call events during streaming
@@ -340,7 +349,7 @@ function createMeteredStream<T extends AsyncIterable<unknown>>(
           spanId, params, true, Date.now() - t0, finalUsage,
           requestId, meterOptions, toolCalls.length > 0 ? toolCalls : undefined
         );
-        await safeEmit(meterOptions, metricEvent);
+        await safeEmit(meterOptions, timer.apply(metricEvent));
       }
 
       return result;
@@ -351,7 +360,7 @@ function createMeteredStream<T extends AsyncIterable<unknown>>(
         spanId, params, true, Date.now() - t0, finalUsage,
         requestId, meterOptions, toolCalls.length > 0 ? toolCalls : undefined
       );
-      await safeEmit(meterOptions, metricEvent);
+      await safeEmit(meterOptions, timer.apply(metricEvent));
 
       if (originalIterator.return) {
         return originalIterator.return(value);
@@ -363,7 +372,7 @@ function createMeteredStream<T extends AsyncIterable<unknown>>(
         spanId, params, true, Date.now() - t0, null, requestId, meterOptions, undefined,
         error instanceof Error ? error.message : String(error)
       );
-      await safeEmit(meterOptions, metricEvent);
+      await safeEmit(meterOptions, timer.apply(metricEvent));
 
       if (originalIterator.throw) {
         return originalIterator.throw(error);
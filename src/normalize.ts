@@ -35,6 +35,10 @@ interface RawAnthropicUsage {
   output_tokens?: number;
   cache_read_input_tokens?: number;
   cache_creation_input_tokens?: number;
+  cache_creation?: {
+    ephemeral_5m_input_tokens?: number;
+    ephemeral_1h_input_tokens?: number;
+  };
 }
 
 /**
@@ -53,6 +57,18 @@ interface RawGeminiUsage {
   cached_content_token_count?: number;
 }
 
+/**
+ * Raw Gemini CachedContent resource (explicit context cache)
+ */
+interface RawGeminiCachedContent {
+  usageMetadata?: { totalTokenCount?: number };
+  usage_metadata?: { total_token_count?: number };
+  createTime?: string;
+  expireTime?: string;
+  create_time?: string;
+  expire_time?: string;
+}
+
 /**
  * Helper to convert an object to a plain dictionary for easier field access.
  */
@@ -98,6 +114,9 @@ export function normalizeOpenAIUsage(usage: unknown): NormalizedUsage | null {
       total_tokens: raw.total_tokens ?? input + output,
       reasoning_tokens: (outputDetails.reasoning_tokens as number) ?? 0,
       cached_tokens: (inputDetails.cached_tokens as number) ?? 0,
+      cache_read_tokens: (inputDetails.cached_tokens as number) ?? 0,
+      cache_write_tokens: 0, // OpenAI caches automatically at no extra charge
+      cache_write_1h_tokens: 0,
       accepted_prediction_tokens: 0,
       rejected_prediction_tokens: 0,
     };
@@ -117,6 +136,9 @@ export function normalizeOpenAIUsage(usage: unknown): NormalizedUsage | null {
     total_tokens: raw.total_tokens ?? prompt + completion,
     reasoning_tokens: (completionDetails.reasoning_tokens as number) ?? 0,
     cached_tokens: (promptDetails.cached_tokens as number) ?? 0,
+    cache_read_tokens: (promptDetails.cached_tokens as number) ?? 0,
+    cache_write_tokens: 0,
+    cache_write_1h_tokens: 0,
     accepted_prediction_tokens: (completionDetails.accepted_prediction_tokens as number) ?? 0,
     rejected_prediction_tokens: (completionDetails.rejected_prediction_tokens as number) ?? 0,
   };
@@ -126,10 +148,15 @@ export function normalizeOpenAIUsage(usage: unknown): NormalizedUsage | null {
  * Normalizes usage data from Anthropic API responses.
  *
  * Anthropic Messages API usage fields:
- * - input_tokens: Input tokens consumed
+ * - input_tokens: Input tokens consumed (excluding cache reads and writes)
  * - output_tokens: Output tokens generated
  * - cache_read_input_tokens: Tokens served from cache (optional)
  * - cache_creation_input_tokens: Tokens used to create cache (optional)
+ * - cache_creation: Cache writes split by TTL tier (optional)
+ *
+ * Cache reads and writes are folded into input_tokens, so as for other
+ * providers they are subsets of the input. (Earlier versions returned the
+ * raw input_tokens, which excludes them.)
  *
  * @param usage - Raw usage object from Anthropic API response
  * @returns Normalized usage metrics, or null if no usage data provided
@@ -141,14 +168,19 @@ export function normalizeAnthropicUsage(usage: unknown): NormalizedUsage | null
 
   const raw = toDict(usage) as RawAnthropicUsage;
 
-  const inputTokens = raw.input_tokens ?? 0;
+  const cacheRead = raw.cache_read_input_tokens ?? 0;
+  const cacheWrite = raw.cache_creation_input_tokens ?? 0;
+  const inputTokens = (raw.input_tokens ?? 0) + cacheRead + cacheWrite;
   const outputTokens = raw.output_tokens ?? 0;
 
   return {
     input_tokens: inputTokens,
     output_tokens: outputTokens,
     total_tokens: inputTokens + outputTokens,
-    cached_tokens: raw.cache_read_input_tokens ?? 0,
+    cached_tokens: cacheRead,
+    cache_read_tokens: cacheRead,
+    cache_write_tokens: cacheWrite,
+    cache_write_1h_tokens: raw.cache_creation?.ephemeral_1h_input_tokens ?? 0,
     reasoning_tokens: 0, // Anthropic doesn't have reasoning tokens yet
     accepted_prediction_tokens: 0,
     rejected_prediction_tokens: 0,
@@ -164,6 +196,9 @@ export function normalizeAnthropicUsage(usage: unknown): NormalizedUsage | null
  * - totalTokenCount: Total tokens
  * - cachedContentTokenCount: Cached tokens (optional)
  *
+ * Reads from an explicit cache are reported here; writing one is a separate
+ * call (see normalizeGeminiCachedContent).
+ *
  * @param usageMetadata - Raw usage_metadata from Gemini API response
  * @returns Normalized usage metrics, or null if no usage data provided
  */
@@ -185,12 +220,58 @@ export function normalizeGeminiUsage(usageMetadata: unknown): NormalizedUsage |
     output_tokens: outputTokens,
     total_tokens: totalTokens,
     cached_tokens: cachedTokens,
+    cache_read_tokens: cachedTokens,
+    cache_write_tokens: 0,
+    cache_write_1h_tokens: 0,
     reasoning_tokens: 0, // Gemini doesn't expose reasoning tokens
     accepted_prediction_tokens: 0,
     rejected_prediction_tokens: 0,
   };
 }
 
+/**
+ * Normalizes a Gemini CachedContent resource, as returned when an explicit
+ * context cache is created.
+ *
+ * Every cached token is a cache write, stored from createTime until
+ * expireTime (billed per token-hour of storage).
+ *
+ * @param cachedContent - CachedContent returned by `caches.create`
+ * @returns Normalized usage metrics, or null if no usage data provided
+ */
+export function normalizeGeminiCachedContent(cachedContent: unknown): NormalizedUsage | null {
+  if (!cachedContent || typeof cachedContent !== "object") {
+    return null;
+  }
+
+  const raw = toDict(cachedContent) as RawGeminiCachedContent;
+  const tokens = raw.usageMetadata?.totalTokenCount ?? raw.usage_metadata?.total_token_count;
+  if (tokens === undefined) {
+    return null;
+  }
+
+  const createTime = Date.parse(raw.createTime ?? raw.create_time ?? "");
+  const expireTime = Date.parse(raw.expireTime ?? raw.expire_time ?? "");
+  const storageHours =
+    Number.isFinite(createTime) && Number.isFinite(expireTime)
+      ? Math.max(0, expireTime - createTime) / 3_600_000
+      : undefined;
+
+  return {
+    input_tokens: tokens,
+    output_tokens: 0,
+    total_tokens: tokens,
+    cached_tokens: 0,
+    cache_read_tokens: 0,
+    cache_write_tokens: tokens,
+    cache_write_1h_tokens: 0,
+    cache_storage_hours: storageHours,
+    reasoning_tokens: 0,
+    accepted_prediction_tokens: 0,
+    rejected_prediction_tokens: 0,
+  };
+}
+
 /**
  * Normalizes usage data from any supported LLM provider.
  *
@@ -237,6 +318,9 @@ export function emptyUsage(): NormalizedUsage {
     total_tokens: 0,
     reasoning_tokens: 0,
     cached_tokens: 0,
+    cache_read_tokens: 0,
+    cache_write_tokens: 0,
+    cache_write_1h_tokens: 0,
     accepted_prediction_tokens: 0,
     rejected_prediction_tokens: 0,
   };
@@ -255,6 +339,9 @@ export function mergeUsage(
     total_tokens: a.total_tokens + b.total_tokens,
     reasoning_tokens: a.reasoning_tokens + b.reasoning_tokens,
     cached_tokens: a.cached_tokens + b.cached_tokens,
+    cache_read_tokens: (a.cache_read_tokens ?? 0) + (b.cache_read_tokens ?? 0),
+    cache_write_tokens: (a.cache_write_tokens ?? 0) + (b.cache_write_tokens ?? 0),
+    cache_write_1h_tokens: (a.cache_write_1h_tokens ?? 0) + (b.cache_write_1h_tokens ?? 0),
     accepted_prediction_tokens:
       a.accepted_prediction_tokens + b.accepted_prediction_tokens,
     rejected_prediction_tokens:
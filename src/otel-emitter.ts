@@ -0,0 +1,219 @@
+/**
+ * OpenTelemetry emitter - record metric events as OTel spans
+ *
+ * Each event becomes a CLIENT span with the GenAI semantic-convention
+ * attributes (gen_ai.system, gen_ai.request.model, gen_ai.usage.*, ...),
+ * so LLM calls show up in any OTel tracing backend next to the rest of the
+ * application's spans. Requires the optional `@opentelemetry/api` package.
+ */
+
+import { createHash } from "crypto";
+import type { Attributes, Context, Link, SpanContext, Tracer } from "@opentelemetry/api";
+import type { MetricEmitter, MetricEvent } from "./types.js";
+
+type OtelApi = typeof import("@opentelemetry/api");
+
+/**
+ * Options for the OpenTelemetry emitter
+ */
+export interface OtelEmitterOptions {
+  /**
+   * Tracer that creates the spans.
+   * Default: the "aden" tracer of the global tracer provider
+   */
+  tracer?: Tracer;
+  /**
+   * Create spans as children of the OTel span active when the event is
+   * emitted (e.g. the HTTP request being served). Without an active span,
+   * or when false, spans join a trace whose id is the event's trace_id.
+   * Default: true
+   */
+  useActiveContext?: boolean;
+  /** Record event metadata as `aden.metadata.<key>` attributes. Default: true */
+  includeMetadata?: boolean;
+}
+
+/**
+ * Spans remembered for linking later events to their parent_span_id
+ */
+const MAX_REMEMBERED_SPANS = 1000;
+
+let otelApi: Promise<OtelApi> | null = null;
+
+function loadOtelApi(): Promise<OtelApi> {
+  otelApi ??= import("@opentelemetry/api").catch((error) => {
+    otelApi = null;
+    throw new Error(
+      `createOtelEmitter requires the "@opentelemetry/api" package: ${error instanceof Error ? error.message : error}`
+    );
+  });
+  return otelApi;
+}
+
+/**
+ * Turn an Aden id (usually a UUID) into an OTel trace id (32 hex chars) or
+ * span id (16 hex chars). Ids that aren't hex are hashed.
+ */
+function toOtelId(id: string, length: 32 | 16): string {
+  const hex = id.replace(/-/g, "").toLowerCase();
+  if (/^[0-9a-f]+$/.test(hex) && hex.length >= length && !/^0+$/.test(hex.slice(0, length))) {
+    return hex.slice(0, length);
+  }
+  return createHash("sha256").update(id).digest("hex").slice(0, length);
+}
+
+/**
+ * GenAI operation name (gen_ai.operation.name) of an event
+ */
+export function genAiOperationName(event: MetricEvent): string {
+  switch (event.operation) {
+    case undefined:
+    case "chat":
+    case "responses":
+      return event.provider === "gemini" ? "generate_content" : "chat";
+    case "embedding":
+      return "embeddings";
+    default:
+      return event.operation;
+  }
+}
+
+/**
+ * GenAI system name (gen_ai.system) of a provider
+ */
+export function genAiSystemName(provider: MetricEvent["provider"]): string {
+  return provider === "gemini" ? "gcp.gemini" : provider;
+}
+
+/**
+ * Span attributes of an event: gen_ai.* where a semantic convention exists,
+ * aden.* for the rest
+ */
+function spanAttributes(event: MetricEvent, includeMetadata: boolean): Attributes {
+  const attributes: Attributes = {
+    "gen_ai.system": genAiSystemName(event.provider),
+    "gen_ai.provider.name": genAiSystemName(event.provider),
+    "gen_ai.operation.name": genAiOperationName(event),
+    "gen_ai.request.model": event.model,
+    "gen_ai.usage.input_tokens": event.input_tokens,
+    "gen_ai.usage.output_tokens": event.output_tokens,
+    "aden.trace_id": event.trace_id,
+    "aden.span_id": event.span_id,
+    "aden.stream": event.stream,
+    "aden.latency_ms": event.latency_ms,
+    "aden.total_tokens": event.total_tokens,
+  };
+
+  const optional: Record<string, string | number | boolean | undefined> = {
+    "gen_ai.response.id": event.request_id ?? undefined,
+    "gen_ai.openai.response.service_tier": event.provider === "openai" ? event.service_tier : undefined,
+    "aden.parent_span_id": event.parent_span_id,
+    "aden.cached_tokens": event.cached_tokens || undefined,
+    "aden.cache_write_tokens": event.cache_write_tokens,
+    "aden.reasoning_tokens": event.reasoning_tokens || undefined,
+    "aden.time_to_first_token_ms": event.time_to_first_token_ms,
+    "aden.total_cost": event.total_cost,
+    "aden.currency": event.currency,
+    "aden.tool_call_count": event.tool_call_count,
+    "aden.tool_names": event.tool_names,
+    "aden.attempt_count": event.attempt_count,
+    "aden.retry_reasons": event.retry_reasons,
+    "aden.cache_hit": event.cache_hit,
+    "aden.cost_avoided": event.cost_avoided,
+    "aden.call_sequence": event.call_sequence,
+    "aden.agent_stack": event.agent_stack?.join(" > "),
+    "code.filepath": event.call_site_file,
+    "code.lineno": event.call_site_line,
+    "code.function": event.call_site_function,
+  };
+  for (const [key, value] of Object.entries(optional)) {
+    if (value !== undefined) attributes[key] = value;
+  }
+
+  if (includeMetadata && event.metadata) {
+    for (const [key, value] of Object.entries(event.metadata)) {
+      attributes[`aden.metadata.${key}`] = value;
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Create an emitter that records each metric event as an OpenTelemetry span.
+ *
+ * Spans start at the request start and end after latency_ms. The event's
+ * parent_span_id (the previous call in the trace, or the failed call of a
+ * fallback hop) becomes a span link to that call's span.
+ *
+ * @example
+ * ```typescript
+ * import { trace } from "@opentelemetry/api";
+ *
+ * await instrument({
+ *   emitMetric: createOtelEmitter({ tracer: trace.getTracer("my-service") }),
+ *   sdks: { OpenAI },
+ * });
+ * ```
+ */
+export function createOtelEmitter(options: OtelEmitterOptions = {}): MetricEmitter {
+  const { useActiveContext = true, includeMetadata = true } = options;
+  // Aden span id -> OTel span context of spans already recorded
+  const recorded = new Map<string, SpanContext>();
+
+  return async (event: MetricEvent) => {
+    const api = await loadOtelApi();
+    const tracer = options.tracer ?? api.trace.getTracer("aden");
+
+    // Events are built when the call completes
+    const endTime = Date.parse(event.timestamp) || Date.now();
+    const startTime = endTime - event.latency_ms;
+
+    // Parent: the active OTel span, or a remote stand-in for the root of
+    // the Aden trace (which has no span of its own)
+    const active = api.context.active();
+    let parent: Context;
+    if (useActiveContext && api.trace.getSpanContext(active)) {
+      parent = active;
+    } else {
+      parent = api.trace.setSpanContext(api.ROOT_CONTEXT, {
+        traceId: toOtelId(event.trace_id, 32),
+        spanId: toOtelId(`${event.trace_id}:root`, 16),
+        traceFlags: api.TraceFlags.SAMPLED,
+        isRemote: true,
+      });
+    }
+
+    const links: Link[] = [];
+    if (event.parent_span_id) {
+      const linked = recorded.get(event.parent_span_id) ?? {
+        traceId: toOtelId(event.trace_id, 32),
+        spanId: toOtelId(event.parent_span_id, 16),
+        traceFlags: api.TraceFlags.SAMPLED,
+        isRemote: true,
+      };
+      links.push({ context: linked, attributes: { "aden.link": "parent_span_id" } });
+    }
+
+    const span = tracer.startSpan(
+      `${genAiOperationName(event)} ${event.model}`,
+      {
+        kind: api.SpanKind.CLIENT,
+        startTime,
+        attributes: spanAttributes(event, includeMetadata),
+        links,
+      },
+      parent
+    );
+
+    if (event.error) {
+      span.setAttribute("error.type", event.status_code ? String(event.status_code) : "_OTHER");
+      span.setStatus({ code: api.SpanStatusCode.ERROR, message: event.error });
+    }
+    span.end(endTime);
+
+    recorded.set(event.span_id, span.spanContext());
+    if (recorded.size > MAX_REMEMBERED_SPANS) {
+      recorded.delete(recorded.keys().next().value as string);
+    }
+  };
+}
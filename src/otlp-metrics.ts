@@ -0,0 +1,324 @@
+/**
+ * OTLP metrics exporter - aggregate metric events and push OTLP/HTTP JSON
+ *
+ * Token and cost counters and a latency histogram are kept in process per
+ * provider, model, operation and agent, and pushed to an OpenTelemetry
+ * collector (or any OTLP/HTTP endpoint) on an interval. Sending goes through
+ * HttpTransport, so exports are queued and retried like metric batches.
+ * No OpenTelemetry SDK is needed.
+ */
+
+import { HttpTransport, type HttpTransportOptions, type TransportStats } from "./http-transport.js";
+import { genAiOperationName, genAiSystemName } from "./otel-emitter.js";
+import { registerShutdownHandler } from "./shutdown.js";
+import type { MetricEmitter, MetricEvent } from "./types.js";
+
+/**
+ * Options for the OTLP metrics exporter
+ */
+export interface OtlpMetricsExporterOptions {
+  /**
+   * OTLP/HTTP metrics endpoint. Default: OTEL_EXPORTER_OTLP_METRICS_ENDPOINT,
+   * OTEL_EXPORTER_OTLP_ENDPOINT + "/v1/metrics", or http://localhost:4318/v1/metrics
+   */
+  url?: string;
+  /** Headers sent with every export (e.g. an API key for a hosted backend) */
+  headers?: Record<string, string>;
+  /** Milliseconds between exports (default: 60000) */
+  exportIntervalMs?: number;
+  /**
+   * Cumulative points carry totals since the exporter started; delta points
+   * carry the change since the previous export. Default: "cumulative"
+   */
+  temporality?: "cumulative" | "delta";
+  /** Resource service.name. Default: OTEL_SERVICE_NAME or "unknown_service" */
+  serviceName?: string;
+  /** Extra resource attributes (e.g. deployment.environment) */
+  resourceAttributes?: Record<string, string>;
+  /** Latency histogram bucket boundaries in seconds */
+  durationBuckets?: number[];
+  /** Timeout, retries, queue size and error callbacks of the underlying transport */
+  transport?: Pick<
+    HttpTransportOptions<OtlpExportRequest>,
+    "timeout" | "maxRetries" | "maxQueueSize" | "onQueueOverflow" | "onSendError"
+  >;
+}
+
+/**
+ * OTLP ExportMetricsServiceRequest in the OTLP/HTTP JSON encoding
+ */
+export interface OtlpExportRequest {
+  resourceMetrics: Array<Record<string, unknown>>;
+}
+
+/**
+ * Bucket boundaries recommended for gen_ai.client.operation.duration
+ */
+const DEFAULT_DURATION_BUCKETS = [0.01, 0.02, 0.04, 0.08, 0.16, 0.32, 0.64, 1.28, 2.56, 5.12, 10.24, 20.48, 40.96, 81.92];
+
+/** OTLP AggregationTemporality values */
+const TEMPORALITY = { delta: 1, cumulative: 2 } as const;
+
+/**
+ * Aggregated values of one attribute set
+ */
+interface Series {
+  attributes: Record<string, string>;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  durationCount: number;
+  durationSum: number;
+  durationMin: number;
+  durationMax: number;
+  bucketCounts: number[];
+}
+
+function toAttributes(attributes: Record<string, string>): Array<{ key: string; value: { stringValue: string } }> {
+  return Object.entries(attributes).map(([key, value]) => ({ key, value: { stringValue: value } }));
+}
+
+function toUnixNano(ms: number): string {
+  return `${BigInt(Math.round(ms)) * 1000000n}`;
+}
+
+/**
+ * Aggregates metric events and exports them as OTLP metrics:
+ *
+ * - `gen_ai.client.operation.duration` (histogram, s)
+ * - `aden.llm.requests` (counter)
+ * - `aden.llm.tokens` (counter, split by `gen_ai.token.type`)
+ * - `aden.llm.cost` (counter, USD)
+ *
+ * Attributes: gen_ai.system, gen_ai.operation.name, gen_ai.request.model,
+ * aden.agent (metadata.agent or the innermost named agent) and error.type.
+ *
+ * @example
+ * ```typescript
+ * const exporter = createOtlpMetricsExporter({
+ *   url: "http://otel-collector:4318/v1/metrics",
+ *   serviceName: "checkout-api",
+ * });
+ *
+ * await instrument({ emitMetric: exporter.emit, sdks: { OpenAI } });
+ *
+ * // On shutdown
+ * await exporter.stop();
+ * ```
+ */
+export class OtlpMetricsExporter {
+  private readonly transport: HttpTransport<OtlpExportRequest>;
+  private readonly temporality: "cumulative" | "delta";
+  private readonly buckets: number[];
+  private readonly resource: Record<string, string>;
+  private series: Map<string, Series> = new Map();
+  private startTime = Date.now();
+  private exportTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly unregisterShutdown: () => void;
+
+  constructor(options: OtlpMetricsExporterOptions = {}) {
+    const baseUrl = process.env.OTEL_EXPORTER_OTLP_ENDPOINT?.replace(/\/$/, "");
+    const url =
+      options.url ??
+      process.env.OTEL_EXPORTER_OTLP_METRICS_ENDPOINT ??
+      (baseUrl ? `${baseUrl}/v1/metrics` : "http://localhost:4318/v1/metrics");
+
+    this.temporality = options.temporality ?? "cumulative";
+    this.buckets = [...(options.durationBuckets ?? DEFAULT_DURATION_BUCKETS)].sort((a, b) => a - b);
+    this.resource = {
+      "service.name": options.serviceName ?? process.env.OTEL_SERVICE_NAME ?? "unknown_service",
+      "telemetry.sdk.name": "aden",
+      "telemetry.sdk.language": "nodejs",
+      ...options.resourceAttributes,
+    };
+
+    // Exports are pushed by this class; the transport only queues and retries.
+    // Queued exports of one flush are merged into a single request.
+    this.transport = new HttpTransport<OtlpExportRequest>({
+      ...options.transport,
+      apiUrl: url,
+      headers: options.headers,
+      batchSize: 10,
+      flushInterval: options.exportIntervalMs ?? 60000,
+      formatPayload: (batch) => ({ resourceMetrics: batch.flatMap((request) => request.resourceMetrics) }),
+    });
+
+    this.exportTimer = setInterval(() => {
+      this.flush().catch((err) => {
+        console.error("[OtlpMetricsExporter] Error in export timer:", err);
+      });
+    }, options.exportIntervalMs ?? 60000);
+
+    // Don't prevent process exit
+    if (this.exportTimer.unref) {
+      this.exportTimer.unref();
+    }
+
+    // An emitter-stage handler: the final export goes through the transport,
+    // which must still be running
+    this.unregisterShutdown = registerShutdownHandler("OtlpMetricsExporter", () => this.stop());
+  }
+
+  /**
+   * Record an event. This is the MetricEmitter interface.
+   */
+  emit: MetricEmitter = (event: MetricEvent): void => {
+    const attributes: Record<string, string> = {
+      "gen_ai.system": genAiSystemName(event.provider),
+      "gen_ai.operation.name": genAiOperationName(event),
+      "gen_ai.request.model": event.model,
+    };
+    const agent = event.metadata?.agent ?? event.agent_stack?.[event.agent_stack.length - 1];
+    if (agent) attributes["aden.agent"] = agent;
+    if (event.error) attributes["error.type"] = event.status_code ? String(event.status_code) : "_OTHER";
+
+    const key = JSON.stringify(attributes);
+    let series = this.series.get(key);
+    if (!series) {
+      series = {
+        attributes,
+        requests: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        cost: 0,
+        durationCount: 0,
+        durationSum: 0,
+        durationMin: Infinity,
+        durationMax: -Infinity,
+        bucketCounts: new Array(this.buckets.length + 1).fill(0),
+      };
+      this.series.set(key, series);
+    }
+
+    const seconds = event.latency_ms / 1000;
+    series.requests++;
+    series.inputTokens += event.input_tokens;
+    series.outputTokens += event.output_tokens;
+    series.cost += event.total_cost ?? 0;
+    series.durationCount++;
+    series.durationSum += seconds;
+    series.durationMin = Math.min(series.durationMin, seconds);
+    series.durationMax = Math.max(series.durationMax, seconds);
+
+    // Bucket i counts values in (bounds[i-1], bounds[i]]
+    let bucket = this.buckets.findIndex((bound) => seconds <= bound);
+    if (bucket === -1) bucket = this.buckets.length;
+    series.bucketCounts[bucket]++;
+  };
+
+  /**
+   * Build an export request from the aggregated values, or null if nothing
+   * was recorded. With delta temporality the aggregates start over.
+   */
+  collect(): OtlpExportRequest | null {
+    if (this.series.size === 0) return null;
+
+    const now = Date.now();
+    const startTimeUnixNano = toUnixNano(this.startTime);
+    const timeUnixNano = toUnixNano(now);
+    const aggregationTemporality = TEMPORALITY[this.temporality];
+    const series = [...this.series.values()];
+
+    const sum = (name: string, unit: string, description: string, points: Array<[Record<string, string>, number]>) => ({
+      name,
+      unit,
+      description,
+      sum: {
+        aggregationTemporality,
+        isMonotonic: true,
+        dataPoints: points.map(([attributes, value]) => ({
+          attributes: toAttributes(attributes),
+          startTimeUnixNano,
+          timeUnixNano,
+          asDouble: value,
+        })),
+      },
+    });
+
+    const metrics = [
+      {
+        name: "gen_ai.client.operation.duration",
+        unit: "s",
+        description: "Duration of LLM calls",
+        histogram: {
+          aggregationTemporality,
+          dataPoints: series.map((s) => ({
+            attributes: toAttributes(s.attributes),
+            startTimeUnixNano,
+            timeUnixNano,
+            count: String(s.durationCount),
+            sum: s.durationSum,
+            min: s.durationMin,
+            max: s.durationMax,
+            bucketCounts: s.bucketCounts.map(String),
+            explicitBounds: this.buckets,
+          })),
+        },
+      },
+      sum("aden.llm.requests", "{request}", "LLM calls", series.map((s) => [s.attributes, s.requests])),
+      sum(
+        "aden.llm.tokens",
+        "{token}",
+        "Tokens used by LLM calls",
+        series.flatMap((s): Array<[Record<string, string>, number]> => [
+          [{ ...s.attributes, "gen_ai.token.type": "input" }, s.inputTokens],
+          [{ ...s.attributes, "gen_ai.token.type": "output" }, s.outputTokens],
+        ])
+      ),
+      sum("aden.llm.cost", "USD", "Cost of LLM calls", series.map((s) => [s.attributes, s.cost])),
+    ];
+
+    if (this.temporality === "delta") {
+      this.series.clear();
+      this.startTime = now;
+    }
+
+    return {
+      resourceMetrics: [
+        {
+          resource: { attributes: toAttributes(this.resource) },
+          scopeMetrics: [{ scope: { name: "aden" }, metrics }],
+        },
+      ],
+    };
+  }
+
+  /**
+   * Export the aggregated values now
+   */
+  async flush(): Promise<void> {
+    const request = this.collect();
+    if (request) {
+      this.transport.emit(request);
+    }
+    await this.transport.flushAll();
+  }
+
+  /**
+   * Transport statistics (counts are export requests, not events)
+   */
+  get stats(): TransportStats {
+    return this.transport.stats;
+  }
+
+  /**
+   * Stop exporting and send the final values
+   */
+  async stop(): Promise<void> {
+    this.unregisterShutdown();
+    if (this.exportTimer) {
+      clearInterval(this.exportTimer);
+      this.exportTimer = null;
+    }
+    await this.flush();
+    await this.transport.stop();
+  }
+}
+
+/**
+ * Create an exporter that pushes aggregated LLM metrics over OTLP/HTTP JSON
+ */
+export function createOtlpMetricsExporter(options: OtlpMetricsExporterOptions = {}): OtlpMetricsExporter {
+  return new OtlpMetricsExporter(options);
+}
@@ -12,16 +12,7 @@ import type {
   CascadedAgentPattern,
   ToolCall,
 } from "./report-types.js";
-
-// Model pricing per 1M tokens
-const MODEL_PRICING: Record<string, { input: number; output: number; cached: number }> = {
-  "gpt-5": { input: 2.0, output: 8.0, cached: 0.5 },
-  "gpt-5-mini": { input: 0.4, output: 1.6, cached: 0.1 },
-  "gpt-4.1": { input: 2.0, output: 8.0, cached: 0.5 },
-  "gpt-4.1-mini": { input: 0.4, output: 1.6, cached: 0.1 },
-  "o3": { input: 10.0, output: 40.0, cached: 2.5 },
-  "o3-mini": { input: 1.1, output: 4.4, cached: 0.275 },
-};
+import { getDefaultPricingRegistry } from "./pricing.js";
 
 const CONTEXT_LIMITS: Record<string, number> = {
   "gpt-5": 1_000_000,
@@ -50,13 +41,19 @@ function calculateCost(
   outputTokens: number,
   cachedTokens: number
 ): number {
-  const pricing = MODEL_PRICING[model] ?? MODEL_PRICING["gpt-5-mini"];
-  const uncachedInput = inputTokens - cachedTokens;
-  return (
-    (uncachedInput / 1_000_000) * pricing.input +
-    (cachedTokens / 1_000_000) * pricing.cached +
-    (outputTokens / 1_000_000) * pricing.output
-  );
+  return getDefaultPricingRegistry().calculateCost(model, {
+    input_tokens: inputTokens,
+    output_tokens: outputTokens,
+    cached_tokens: cachedTokens,
+  }).total_cost;
+}
+
+function calculateCacheSavings(model: string, inputTokens: number, cachedTokens: number): number {
+  return getDefaultPricingRegistry().calculateCost(model, {
+    input_tokens: inputTokens,
+    output_tokens: 0,
+    cached_tokens: cachedTokens,
+  }).cache_savings;
 }
 
 /**
@@ -115,8 +112,7 @@ export function simulateConversation(options: {
 
     // Calculate cache savings
     if (cachedTokens > 0) {
-      const pricing = MODEL_PRICING[model] ?? MODEL_PRICING["gpt-5-mini"];
-      totalCacheSavings += (cachedTokens / 1_000_000) * (pricing.input - pricing.cached);
+      totalCacheSavings += calculateCacheSavings(model, inputTokens, cachedTokens);
     }
 
     const contextLimit = CONTEXT_LIMITS[model] ?? 128_000;
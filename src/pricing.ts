@@ -0,0 +1,708 @@
+/**
+ * Pricing Registry - single source of truth for model prices
+ *
+ * Every component that turns tokens into dollars (AnalyticsEngine,
+ * ReportBuilder, ControlAgent budgets, the pattern simulator) resolves
+ * prices through a PricingRegistry, so a dashboard, a budget and a report
+ * all show the same figure for the same call.
+ */
+
+import type { MetricEvent } from "./types.js";
+
+/**
+ * Provider a price belongs to
+ */
+export type PricingProvider = MetricEvent["provider"];
+
+/**
+ * Per-tier rates (per 1M tokens, USD)
+ */
+export interface TierPricing {
+  /** Input/prompt rate */
+  input: number;
+  /** Output/completion rate */
+  output: number;
+  /** Cached input rate (defaults to the tier's input rate scaled like the standard tier) */
+  cached?: number;
+  /** Cache write rate (defaults to the tier's input rate scaled like the standard tier) */
+  cache_write?: number;
+  /** 1-hour TTL cache write rate (defaults to the tier's input rate scaled like the standard tier) */
+  cache_write_1h?: number;
+}
+
+/**
+ * Price sheet for a single model (all rates per 1M tokens, USD)
+ */
+export interface ModelPricing {
+  /** Provider that serves the model */
+  provider?: PricingProvider;
+  /** Uncached input rate */
+  input: number;
+  /** Output rate */
+  output: number;
+  /** Cached (prompt cache read) input rate. Default: input rate */
+  cached?: number;
+  /** Prompt cache write rate (e.g. Anthropic cache_creation_input_tokens). Default: input rate */
+  cache_write?: number;
+  /** Prompt cache write rate for the 1-hour TTL tier. Default: cache_write rate */
+  cache_write_1h?: number;
+  /** Cache storage rate per 1M tokens per hour (Gemini explicit caching). Default: 0 */
+  cache_storage?: number;
+  /** Reasoning token rate. Default: output rate (reasoning is billed as output) */
+  reasoning?: number;
+  /** Batch API rates. Default: 50% of standard input/output */
+  batch?: TierPricing;
+  /** Service tier rates (e.g. OpenAI flex/priority) */
+  tiers?: Partial<Record<"flex" | "priority", TierPricing>>;
+  /** Per-image price keyed by `quality-size` (e.g. "hd-1024x1024"), `size` or `default` */
+  per_image?: Record<string, number>;
+  /** Per-minute audio price (e.g. whisper-1 transcription) */
+  per_audio_minute?: number;
+  /** Per-1M-characters price (e.g. tts-1 speech) */
+  per_1m_characters?: number;
+}
+
+/**
+ * How a model name was matched to a price sheet
+ * - exact: the model name is a registered key
+ * - alias: matched via an alias, date-suffix stripping or prefix matching
+ * - fallback: no match; the registry's fallback prices were used
+ */
+export type PricingMatch = "exact" | "alias" | "fallback";
+
+/**
+ * Result of resolving a model name
+ */
+export interface PricingResolution {
+  /** Canonical registry key (the requested model for fallback matches) */
+  model: string;
+  /** Resolved price sheet */
+  pricing: ModelPricing;
+  /** How the match was made */
+  match: PricingMatch;
+}
+
+/**
+ * Token counts needed to price a call
+ */
+export interface PricedUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cached_tokens?: number;
+  /** Input tokens written to the prompt cache (a subset of input_tokens) */
+  cache_write_tokens?: number;
+  /** Portion of cache_write_tokens written with the 1-hour TTL tier */
+  cache_write_1h_tokens?: number;
+  /** Hours the written tokens are stored for (priced with `cache_storage`) */
+  cache_storage_hours?: number;
+  reasoning_tokens?: number;
+  /** Images generated (priced with `per_image`) */
+  image_count?: number;
+  /** Requested image size, e.g. "1024x1024" */
+  image_size?: string;
+  /** Requested image quality, e.g. "standard" or "hd" */
+  image_quality?: string;
+  /** Audio duration in seconds (priced with `per_audio_minute`) */
+  audio_seconds?: number;
+  /** Characters synthesized (priced with `per_1m_characters`) */
+  character_count?: number;
+}
+
+/**
+ * Options that select which rate card applies
+ */
+export interface CostOptions {
+  /** Service tier the request ran on (flex, priority, ...) */
+  serviceTier?: string;
+  /** Whether the request ran through a batch API */
+  batch?: boolean;
+}
+
+/**
+ * Cost of a single call, broken down by component (USD)
+ */
+export interface CostBreakdown {
+  /** Cost of all input tokens (uncached + cached) */
+  input_cost: number;
+  /** Cost of all output tokens (including reasoning) */
+  output_cost: number;
+  /** Portion of input_cost from cached tokens */
+  cached_input_cost: number;
+  /** Portion of input_cost from prompt cache writes (all TTL tiers) */
+  cache_write_cost: number;
+  /** Portion of unit_cost from cache storage */
+  cache_storage_cost: number;
+  /** Portion of output_cost from reasoning tokens */
+  reasoning_cost: number;
+  /** Cost of non-token units (images, audio minutes, characters, cache storage) */
+  unit_cost: number;
+  /** input_cost + output_cost + unit_cost */
+  total_cost: number;
+  /**
+   * Net prompt cache savings: what cached reads would have cost at the input
+   * rate minus what they did cost, less cache write premiums and storage.
+   * Negative when caching cost more than it saved.
+   */
+  cache_savings: number;
+  /** Currency of all cost fields */
+  currency: "USD";
+  /** Registry key the price came from */
+  pricing_model: string;
+  /** How the model name was matched */
+  pricing_match: PricingMatch;
+}
+
+/**
+ * Pricing overrides accepted by components (AnalyticsEngine, ReportBuilder, ...)
+ */
+export type PricingOverrides = Record<string, ModelPricing>;
+
+/**
+ * Options for creating a pricing registry
+ */
+export interface PricingRegistryOptions {
+  /** Parent registry consulted when this registry has no match (default: none) */
+  parent?: PricingRegistry;
+  /** Initial price sheets (replace the built-in table when no parent is given) */
+  pricing?: PricingOverrides;
+  /** Alias → canonical model name */
+  aliases?: Record<string, string>;
+  /** Prices used for unknown models. Default: $1 input / $3 output */
+  fallback?: ModelPricing;
+  /** Whether to load the built-in table (default: true when no parent is given) */
+  includeDefaults?: boolean;
+}
+
+/** Fallback for models the registry cannot resolve (flagged as "fallback") */
+const FALLBACK_PRICING: ModelPricing = { input: 1.0, output: 3.0, cached: 0.25 };
+
+/**
+ * Built-in price table (per 1M tokens, USD, standard tier)
+ */
+const DEFAULT_MODEL_PRICING: PricingOverrides = {
+  // OpenAI
+  "gpt-5": {
+    provider: "openai", input: 1.25, output: 10.0, cached: 0.125,
+    tiers: { flex: { input: 0.625, output: 5.0, cached: 0.0625 }, priority: { input: 2.5, output: 20.0, cached: 0.25 } },
+  },
+  "gpt-5-mini": {
+    provider: "openai", input: 0.25, output: 2.0, cached: 0.025,
+    tiers: { flex: { input: 0.125, output: 1.0, cached: 0.0125 }, priority: { input: 0.45, output: 3.6, cached: 0.045 } },
+  },
+  "gpt-5-nano": {
+    provider: "openai", input: 0.05, output: 0.4, cached: 0.005,
+    tiers: { flex: { input: 0.025, output: 0.2, cached: 0.0025 } },
+  },
+  "gpt-4.1": {
+    provider: "openai", input: 2.0, output: 8.0, cached: 0.5,
+    tiers: { priority: { input: 3.5, output: 14.0, cached: 0.875 } },
+  },
+  "gpt-4.1-mini": {
+    provider: "openai", input: 0.4, output: 1.6, cached: 0.1,
+    tiers: { priority: { input: 0.7, output: 2.8, cached: 0.175 } },
+  },
+  "gpt-4.1-nano": {
+    provider: "openai", input: 0.1, output: 0.4, cached: 0.025,
+    tiers: { priority: { input: 0.2, output: 0.8, cached: 0.05 } },
+  },
+  "gpt-4o": {
+    provider: "openai", input: 2.5, output: 10.0, cached: 1.25,
+    tiers: { priority: { input: 4.25, output: 17.0, cached: 2.125 } },
+  },
+  "gpt-4o-mini": {
+    provider: "openai", input: 0.15, output: 0.6, cached: 0.075,
+    tiers: { priority: { input: 0.25, output: 1.0, cached: 0.125 } },
+  },
+  "gpt-4-turbo": { provider: "openai", input: 10.0, output: 30.0 },
+  "gpt-4": { provider: "openai", input: 30.0, output: 60.0 },
+  "gpt-3.5-turbo": { provider: "openai", input: 0.5, output: 1.5 },
+  "o1": { provider: "openai", input: 15.0, output: 60.0, cached: 7.5 },
+  "o1-mini": { provider: "openai", input: 1.1, output: 4.4, cached: 0.55 },
+  "o3": {
+    provider: "openai", input: 2.0, output: 8.0, cached: 0.5,
+    tiers: { flex: { input: 1.0, output: 4.0, cached: 0.25 }, priority: { input: 3.5, output: 14.0, cached: 0.875 } },
+  },
+  "o3-mini": { provider: "openai", input: 1.1, output: 4.4, cached: 0.55 },
+  "o4-mini": {
+    provider: "openai", input: 1.1, output: 4.4, cached: 0.275,
+    tiers: { flex: { input: 0.55, output: 2.2, cached: 0.138 }, priority: { input: 2.0, output: 8.0, cached: 0.5 } },
+  },
+  "text-embedding-3-small": { provider: "openai", input: 0.02, output: 0 },
+  "text-embedding-3-large": { provider: "openai", input: 0.13, output: 0 },
+  "text-embedding-ada-002": { provider: "openai", input: 0.1, output: 0 },
+  "gpt-image-1": { provider: "openai", input: 5.0, output: 40.0, cached: 1.25 },
+  "dall-e-3": {
+    provider: "openai", input: 0, output: 0,
+    per_image: {
+      "standard-1024x1024": 0.04, "standard-1024x1792": 0.08, "standard-1792x1024": 0.08,
+      "hd-1024x1024": 0.08, "hd-1024x1792": 0.12, "hd-1792x1024": 0.12,
+    },
+  },
+  "dall-e-2": {
+    provider: "openai", input: 0, output: 0,
+    per_image: { "1024x1024": 0.02, "512x512": 0.018, "256x256": 0.016 },
+  },
+  "whisper-1": { provider: "openai", input: 0, output: 0, per_audio_minute: 0.006 },
+  "gpt-4o-transcribe": { provider: "openai", input: 6.0, output: 10.0 },
+  "gpt-4o-mini-transcribe": { provider: "openai", input: 3.0, output: 5.0 },
+  "tts-1": { provider: "openai", input: 0, output: 0, per_1m_characters: 15.0 },
+  "tts-1-hd": { provider: "openai", input: 0, output: 0, per_1m_characters: 30.0 },
+  "gpt-4o-mini-tts": { provider: "openai", input: 0.6, output: 12.0 },
+  "omni-moderation": { provider: "openai", input: 0, output: 0 },
+  "text-moderation": { provider: "openai", input: 0, output: 0 },
+
+  // Anthropic
+  "claude-opus-4-1": { provider: "anthropic", input: 15.0, output: 75.0, cached: 1.5, cache_write: 18.75, cache_write_1h: 30.0 },
+  "claude-opus-4": { provider: "anthropic", input: 15.0, output: 75.0, cached: 1.5, cache_write: 18.75, cache_write_1h: 30.0 },
+  "claude-sonnet-4-5": { provider: "anthropic", input: 3.0, output: 15.0, cached: 0.3, cache_write: 3.75, cache_write_1h: 6.0 },
+  "claude-sonnet-4": { provider: "anthropic", input: 3.0, output: 15.0, cached: 0.3, cache_write: 3.75, cache_write_1h: 6.0 },
+  "claude-haiku-4-5": { provider: "anthropic", input: 1.0, output: 5.0, cached: 0.1, cache_write: 1.25, cache_write_1h: 2.0 },
+  "claude-3-7-sonnet": { provider: "anthropic", input: 3.0, output: 15.0, cached: 0.3, cache_write: 3.75, cache_write_1h: 6.0 },
+  "claude-3-5-sonnet": { provider: "anthropic", input: 3.0, output: 15.0, cached: 0.3, cache_write: 3.75, cache_write_1h: 6.0 },
+  "claude-3-5-haiku": { provider: "anthropic", input: 0.8, output: 4.0, cached: 0.08, cache_write: 1.0, cache_write_1h: 1.6 },
+  "claude-3-opus": { provider: "anthropic", input: 15.0, output: 75.0, cached: 1.5, cache_write: 18.75, cache_write_1h: 30.0 },
+  "claude-3-sonnet": { provider: "anthropic", input: 3.0, output: 15.0, cached: 0.3, cache_write: 3.75, cache_write_1h: 6.0 },
+  "claude-3-haiku": { provider: "anthropic", input: 0.25, output: 1.25, cached: 0.03, cache_write: 0.3, cache_write_1h: 0.5 },
+
+  // Google Gemini (prompts <= 200k tokens)
+  "gemini-2.5-pro": { provider: "gemini", input: 1.25, output: 10.0, cached: 0.31, cache_storage: 4.5 },
+  "gemini-2.5-flash": { provider: "gemini", input: 0.3, output: 2.5, cached: 0.075, cache_storage: 1.0 },
+  "gemini-2.5-flash-lite": { provider: "gemini", input: 0.1, output: 0.4, cached: 0.025, cache_storage: 1.0 },
+  "gemini-2.0-flash": { provider: "gemini", input: 0.1, output: 0.4, cached: 0.025, cache_storage: 1.0 },
+  "gemini-2.0-flash-lite": { provider: "gemini", input: 0.075, output: 0.3 },
+  "gemini-1.5-pro": { provider: "gemini", input: 1.25, output: 5.0, cached: 0.3125, cache_storage: 4.5 },
+  "gemini-1.5-flash": { provider: "gemini", input: 0.075, output: 0.3, cached: 0.01875, cache_storage: 1.0 },
+  "gemini-1.5-flash-8b": { provider: "gemini", input: 0.0375, output: 0.15, cached: 0.01, cache_storage: 0.25 },
+  "text-embedding-004": { provider: "gemini", input: 0, output: 0 },
+};
+
+/**
+ * Built-in aliases for names that do not follow the date-suffix convention
+ */
+const DEFAULT_ALIASES: Record<string, string> = {
+  "chatgpt-4o-latest": "gpt-4o",
+  "claude-3-5-sonnet-latest": "claude-3-5-sonnet",
+  "claude-3-5-haiku-latest": "claude-3-5-haiku",
+  "claude-3-7-sonnet-latest": "claude-3-7-sonnet",
+  "claude-3-opus-latest": "claude-3-opus",
+  "claude-opus-4-0": "claude-opus-4",
+  "claude-sonnet-4-0": "claude-sonnet-4",
+  "claude-4-opus": "claude-opus-4",
+  "claude-4-sonnet": "claude-sonnet-4",
+  "gemini-pro": "gemini-1.5-pro",
+  "gemini-flash": "gemini-1.5-flash",
+};
+
+/**
+ * Strip vendor prefixes and version/date suffixes from a model name.
+ *
+ * Handles:
+ * - Gemini resource names: "models/gemini-2.0-flash"
+ * - Vendor-qualified names (Dify, gateways): "openai/gpt-4o", "langgenius/openai:gpt-4o"
+ * - Bedrock ids: "anthropic.claude-3-5-sonnet-20240620-v1:0"
+ * - Date suffixes: "gpt-4o-2024-08-06", "claude-3-5-sonnet-20241022", "claude-3-5-sonnet@20241022"
+ * - Channel suffixes: "-latest", "-preview", "-exp", "-001"
+ */
+function stripModelName(model: string): string {
+  let name = model.trim().toLowerCase();
+
+  // Resource/vendor prefixes
+  name = name.replace(/^models\//, "");
+  if (name.includes("/")) {
+    name = name.slice(name.lastIndexOf("/") + 1);
+  }
+  if (name.includes(":") && !/-v\d+:\d+$/.test(name)) {
+    name = name.slice(name.lastIndexOf(":") + 1);
+  }
+  // Bedrock cross-region ids carry a region before the vendor ("us.anthropic.")
+  name = name.replace(/^(us|eu|apac)\./, "");
+  name = name.replace(/^(anthropic|openai|google)\./, "");
+
+  // Version/date suffixes
+  name = name.replace(/-v\d+(:\d+)?$/, "");
+  name = name.replace(/@\d{8}$/, "");
+  name = name.replace(/-\d{4}-\d{2}-\d{2}$/, "");
+  name = name.replace(/-\d{8}$/, "");
+  name = name.replace(/-(latest|preview(-\d{2}-\d{2,4})?|exp(-\d{4})?|\d{3})$/, "");
+
+  return name;
+}
+
+/**
+ * Registry of model prices with alias resolution and user overrides.
+ *
+ * @example
+ * ```typescript
+ * import { getDefaultPricingRegistry, PricingRegistry } from "aden";
+ *
+ * const registry = getDefaultPricingRegistry();
+ * const cost = registry.calculateCost("claude-3-5-sonnet-20241022", {
+ *   input_tokens: 1200,
+ *   output_tokens: 300,
+ *   cached_tokens: 1000,
+ * });
+ * console.log(cost.total_cost, cost.pricing_match); // 0.0054 "alias"
+ *
+ * // Override prices for negotiated rates without touching the defaults
+ * const custom = registry.withOverrides({
+ *   "gpt-4o": { input: 2.0, output: 8.0, cached: 1.0 },
+ * });
+ * ```
+ */
+export class PricingRegistry {
+  private pricing: Map<string, ModelPricing> = new Map();
+  private aliases: Map<string, string> = new Map();
+  private readonly parent: PricingRegistry | null;
+  private fallback: ModelPricing;
+
+  constructor(options: PricingRegistryOptions = {}) {
+    this.parent = options.parent ?? null;
+    this.fallback = options.fallback ?? FALLBACK_PRICING;
+
+    const includeDefaults = options.includeDefaults ?? !this.parent;
+    if (includeDefaults) {
+      this.load(DEFAULT_MODEL_PRICING, DEFAULT_ALIASES);
+    }
+    if (options.pricing || options.aliases) {
+      this.load(options.pricing ?? {}, options.aliases);
+    }
+  }
+
+  /**
+   * Register or replace the price sheet for a model
+   */
+  set(model: string, pricing: ModelPricing): void {
+    this.pricing.set(model.toLowerCase(), pricing);
+  }
+
+  /**
+   * Register an alias for a canonical model name
+   */
+  setAlias(alias: string, canonical: string): void {
+    this.aliases.set(alias.toLowerCase(), canonical.toLowerCase());
+  }
+
+  /**
+   * Load a table of prices (and optional aliases), replacing existing entries
+   */
+  load(pricing: PricingOverrides, aliases?: Record<string, string>): void {
+    for (const [model, rates] of Object.entries(pricing)) {
+      this.set(model, rates);
+    }
+    if (aliases) {
+      for (const [alias, canonical] of Object.entries(aliases)) {
+        this.setAlias(alias, canonical);
+      }
+    }
+  }
+
+  /**
+   * Replace the prices used for unknown models
+   */
+  setFallback(pricing: ModelPricing): void {
+    this.fallback = pricing;
+  }
+
+  /**
+   * Create a child registry with user overrides.
+   * Lookups fall through to this registry, so later updates here stay visible.
+   */
+  withOverrides(overrides: PricingOverrides, aliases?: Record<string, string>): PricingRegistry {
+    return new PricingRegistry({ parent: this, pricing: overrides, aliases, fallback: this.fallback });
+  }
+
+  /**
+   * List all known model keys (including those inherited from the parent)
+   */
+  models(): string[] {
+    const keys = new Set(this.parent?.models() ?? []);
+    for (const key of this.pricing.keys()) keys.add(key);
+    return [...keys];
+  }
+
+  /**
+   * Resolve a model name to a price sheet.
+   *
+   * Resolution order: exact key → alias → date/vendor-suffix stripped name
+   * (here, then in the parent registries) → longest registered prefix across
+   * all registries → fallback. An override for "gpt-4o" therefore doesn't
+   * price "gpt-4o-mini", which the parent knows exactly.
+   */
+  resolve(model: string): PricingResolution {
+    return this.resolveNamed(model) ?? this.resolvePrefix(model) ?? { model, pricing: this.fallback, match: "fallback" };
+  }
+
+  /**
+   * Get the price sheet for a model (fallback prices if unknown)
+   */
+  getPricing(model: string): ModelPricing {
+    return this.resolve(model).pricing;
+  }
+
+  /**
+   * Calculate the cost of a call.
+   *
+   * Cached and cache-write tokens are subsets of input tokens; reasoning
+   * tokens are a subset of output tokens.
+   */
+  calculateCost(model: string, usage: PricedUsage, options: CostOptions = {}): CostBreakdown {
+    const resolution = this.resolve(model ?? "");
+    const rates = this.selectRates(resolution.pricing, options);
+
+    const cachedTokens = Math.min(usage.cached_tokens ?? 0, usage.input_tokens);
+    const cacheWriteTokens = Math.min(usage.cache_write_tokens ?? 0, usage.input_tokens - cachedTokens);
+    const uncachedInput = Math.max(0, usage.input_tokens - cachedTokens - cacheWriteTokens);
+    const reasoningTokens = Math.min(usage.reasoning_tokens ?? 0, usage.output_tokens);
+    const regularOutput = Math.max(0, usage.output_tokens - reasoningTokens);
+
+    const cachedInputCost = (cachedTokens * rates.cached) / 1_000_000;
+    const cacheWrite1hTokens = Math.min(usage.cache_write_1h_tokens ?? 0, cacheWriteTokens);
+    const cacheWrite5mTokens = cacheWriteTokens - cacheWrite1hTokens;
+    const cacheWriteCost =
+      (cacheWrite5mTokens * rates.cacheWrite + cacheWrite1hTokens * rates.cacheWrite1h) / 1_000_000;
+    const inputCost = (uncachedInput * rates.input) / 1_000_000 + cachedInputCost + cacheWriteCost;
+    const reasoningCost = (reasoningTokens * rates.reasoning) / 1_000_000;
+    const outputCost = (regularOutput * rates.output) / 1_000_000 + reasoningCost;
+    const cacheStorageCost =
+      (cacheWriteTokens * (usage.cache_storage_hours ?? 0) * (resolution.pricing.cache_storage ?? 0)) / 1_000_000;
+    const unitCost = this.calculateUnitCost(resolution.pricing, usage) + cacheStorageCost;
+
+    // Reads save (input - cached) per token; writes cost (write - input) extra per token
+    const readSavings = cachedTokens * (rates.input - rates.cached);
+    const writePremium = cacheWriteCost * 1_000_000 - cacheWriteTokens * rates.input;
+
+    return {
+      input_cost: inputCost,
+      output_cost: outputCost,
+      cached_input_cost: cachedInputCost,
+      cache_write_cost: cacheWriteCost,
+      cache_storage_cost: cacheStorageCost,
+      reasoning_cost: reasoningCost,
+      unit_cost: unitCost,
+      total_cost: inputCost + outputCost + unitCost,
+      cache_savings: (readSavings - writePremium) / 1_000_000 - cacheStorageCost,
+      currency: "USD",
+      pricing_model: resolution.model,
+      pricing_match: resolution.match,
+    };
+  }
+
+  /**
+   * Look up a model by name (exact, alias, stripped) in this registry, then
+   * in its parents
+   */
+  private resolveNamed(model: string): PricingResolution | null {
+    return this.resolveLocal(model) ?? this.parent?.resolveNamed(model) ?? null;
+  }
+
+  /**
+   * Longest registered prefix of a model across this registry and its
+   * parents (e.g. "gpt-4o-mini-search" -> "gpt-4o-mini"); on equal length
+   * the nearest registry wins
+   */
+  private resolvePrefix(model: string): PricingResolution | null {
+    if (!model) return null;
+    const stripped = stripModelName(model.toLowerCase());
+
+    let best: { key: string; pricing: ModelPricing } | null = null;
+    for (let registry: PricingRegistry | null = this; registry; registry = registry.parent) {
+      for (const [key, pricing] of registry.pricing) {
+        if (stripped.startsWith(key + "-") && (!best || key.length > best.key.length)) {
+          best = { key, pricing };
+        }
+      }
+    }
+    return best ? { model: best.key, pricing: best.pricing, match: "alias" } : null;
+  }
+
+  /**
+   * Look up a model by name in this registry only (no prefix, parent or fallback)
+   */
+  private resolveLocal(model: string): PricingResolution | null {
+    if (!model) return null;
+    const lower = model.toLowerCase();
+
+    const exact = this.pricing.get(lower);
+    if (exact) return { model: lower, pricing: exact, match: "exact" };
+
+    const viaAlias = this.lookupAlias(lower);
+    if (viaAlias) return viaAlias;
+
+    const stripped = stripModelName(lower);
+    if (stripped !== lower) {
+      const strippedExact = this.pricing.get(stripped);
+      if (strippedExact) return { model: stripped, pricing: strippedExact, match: "alias" };
+      const strippedAlias = this.lookupAlias(stripped);
+      if (strippedAlias) return strippedAlias;
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve an alias to a price sheet (aliases may point at parent entries)
+   */
+  private lookupAlias(name: string): PricingResolution | null {
+    const canonical = this.aliases.get(name);
+    if (!canonical) return null;
+
+    const pricing = this.pricing.get(canonical);
+    if (pricing) return { model: canonical, pricing, match: "alias" };
+
+    if (this.parent) {
+      const inherited = this.parent.resolve(canonical);
+      if (inherited.match !== "fallback") return { ...inherited, match: "alias" };
+    }
+    return null;
+  }
+
+  /**
+   * Price non-token units (images, audio minutes, characters)
+   */
+  private calculateUnitCost(pricing: ModelPricing, usage: PricedUsage): number {
+    let cost = 0;
+
+    if (usage.image_count && pricing.per_image) {
+      const size = usage.image_size ?? "1024x1024";
+      const quality = usage.image_quality ?? "standard";
+      const perImage =
+        pricing.per_image[`${quality}-${size}`] ??
+        pricing.per_image[size] ??
+        pricing.per_image.default ??
+        0;
+      cost += usage.image_count * perImage;
+    }
+    if (usage.audio_seconds && pricing.per_audio_minute) {
+      cost += (usage.audio_seconds / 60) * pricing.per_audio_minute;
+    }
+    if (usage.character_count && pricing.per_1m_characters) {
+      cost += (usage.character_count * pricing.per_1m_characters) / 1_000_000;
+    }
+
+    return cost;
+  }
+
+  /**
+   * Pick the rate card for the requested tier
+   */
+  private selectRates(
+    pricing: ModelPricing,
+    options: CostOptions
+  ): { input: number; output: number; cached: number; cacheWrite: number; cacheWrite1h: number; reasoning: number } {
+    const cacheWrite = pricing.cache_write ?? pricing.input;
+    const cacheWrite1h = pricing.cache_write_1h ?? cacheWrite;
+    const cachedRatio = pricing.input > 0 ? (pricing.cached ?? pricing.input) / pricing.input : 1;
+    const cacheWriteRatio = pricing.input > 0 ? cacheWrite / pricing.input : 1;
+    const cacheWrite1hRatio = pricing.input > 0 ? cacheWrite1h / pricing.input : 1;
+    const reasoningRatio = pricing.output > 0 ? (pricing.reasoning ?? pricing.output) / pricing.output : 1;
+
+    let tier: TierPricing | undefined;
+    if (options.batch) {
+      tier = pricing.batch ?? { input: pricing.input * 0.5, output: pricing.output * 0.5 };
+    } else if (options.serviceTier === "flex" || options.serviceTier === "priority") {
+      tier = pricing.tiers?.[options.serviceTier];
+    }
+
+    if (!tier) {
+      return {
+        input: pricing.input,
+        output: pricing.output,
+        cached: pricing.cached ?? pricing.input,
+        cacheWrite,
+        cacheWrite1h,
+        reasoning: pricing.reasoning ?? pricing.output,
+      };
+    }
+
+    return {
+      input: tier.input,
+      output: tier.output,
+      cached: tier.cached ?? tier.input * cachedRatio,
+      cacheWrite: tier.cache_write ?? tier.input * cacheWriteRatio,
+      cacheWrite1h: tier.cache_write_1h ?? tier.input * cacheWrite1hRatio,
+      reasoning: tier.output * reasoningRatio,
+    };
+  }
+}
+
+// Shared registry used by all components unless one is passed explicitly
+let defaultRegistry: PricingRegistry | null = null;
+
+// Registries built from override tables, so emit-time pricing doesn't rebuild one per event
+const overrideRegistries = new WeakMap<PricingOverrides, PricingRegistry>();
+
+/**
+ * Get the shared pricing registry.
+ *
+ * AnalyticsEngine, ReportBuilder, ControlAgent and the pattern simulator use
+ * this registry by default. Prices fetched from the control server are loaded
+ * into it, so every component sees them.
+ */
+export function getDefaultPricingRegistry(): PricingRegistry {
+  if (!defaultRegistry) {
+    defaultRegistry = new PricingRegistry();
+  }
+  return defaultRegistry;
+}
+
+/**
+ * Create a pricing registry.
+ *
+ * With no options this is an independent copy of the built-in table.
+ * Pass `parent` to layer overrides on top of another registry.
+ */
+export function createPricingRegistry(options?: PricingRegistryOptions): PricingRegistry {
+  return new PricingRegistry(options);
+}
+
+/**
+ * Resolve a pricing argument accepted by components: an explicit registry,
+ * a table of overrides on top of the shared registry, or the shared registry.
+ */
+export function resolvePricingRegistry(pricing?: PricingRegistry | PricingOverrides): PricingRegistry {
+  if (pricing instanceof PricingRegistry) return pricing;
+  if (pricing && Object.keys(pricing).length > 0) {
+    let registry = overrideRegistries.get(pricing);
+    if (!registry) {
+      registry = getDefaultPricingRegistry().withOverrides(pricing);
+      overrideRegistries.set(pricing, registry);
+    }
+    return registry;
+  }
+  return getDefaultPricingRegistry();
+}
+
+/**
+ * Fill the cost fields of a metric event.
+ *
+ * Called by the instrumentation layer before each event is emitted, so
+ * emitters receive priced events. Events that already carry a
+ * provider-reported cost (e.g. Dify) keep it and are flagged "provider".
+ */
+export function priceMetricEvent(
+  event: MetricEvent,
+  pricing?: PricingRegistry | PricingOverrides
+): MetricEvent {
+  if (event.total_cost !== undefined) {
+    event.pricing_match ??= "provider";
+    return event;
+  }
+
+  const cost = resolvePricingRegistry(pricing).calculateCost(event.model, event, {
+    serviceTier: event.service_tier,
+    batch: event.batch,
+  });
+
+  event.input_cost = cost.input_cost;
+  event.output_cost = cost.output_cost;
+  event.cached_input_cost = cost.cached_input_cost;
+  if (cost.cache_write_cost > 0) event.cache_write_cost = cost.cache_write_cost;
+  if (cost.cache_storage_cost > 0) event.cache_storage_cost = cost.cache_storage_cost;
+  event.reasoning_cost = cost.reasoning_cost;
+  if (cost.unit_cost > 0) event.unit_cost = cost.unit_cost;
+  event.total_cost = cost.total_cost;
+  event.currency = cost.currency;
+  event.pricing_model = cost.pricing_model;
+  event.pricing_match = cost.pricing_match;
+  return event;
+}
@@ -0,0 +1,230 @@
+/**
+ * Prometheus emitter - expose LLM metrics for scraping
+ *
+ * Counters and a latency histogram are kept in process and served in the
+ * Prometheus text exposition format, from a request handler that can be
+ * mounted on an existing server or from a small built-in http.Server.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import { logger } from "./logging.js";
+import type { MetricEmitter, MetricEvent } from "./types.js";
+
+/**
+ * Labels every series carries
+ */
+export type PrometheusLabel = "provider" | "model" | "agent" | "context";
+
+/**
+ * Options for the Prometheus emitter
+ */
+export interface PrometheusEmitterOptions {
+  /** Prefix for metric names (e.g. "myapp_" gives myapp_llm_tokens_total). Default: "" */
+  prefix?: string;
+  /** Latency histogram bucket boundaries in seconds */
+  durationBuckets?: number[];
+  /**
+   * Most distinct values kept per label. Further values are reported as
+   * "__other__", so a label like context cannot grow the series count
+   * without bound. A number applies to every label. Default: 100
+   */
+  maxLabelValues?: number | Partial<Record<PrometheusLabel, number>>;
+  /**
+   * Context id of the current request (the `context` label).
+   * Default: metadata.context_id of the event
+   */
+  getContextId?: () => string | undefined;
+}
+
+/**
+ * Value of a label once its limit of distinct values is reached
+ */
+const OVERFLOW_LABEL_VALUE = "__other__";
+
+const DEFAULT_DURATION_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+const LABELS: PrometheusLabel[] = ["provider", "model", "agent", "context"];
+
+/**
+ * Aggregated values of one label set
+ */
+interface Series {
+  labels: Record<PrometheusLabel, string>;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  errors: number;
+  durationCount: number;
+  durationSum: number;
+  /** Non-cumulative counts per bucket; the last one is +Inf */
+  bucketCounts: number[];
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return `{${pairs.join(",")}}`;
+}
+
+/**
+ * Create an emitter that keeps LLM metrics for Prometheus to scrape:
+ *
+ * - `llm_tokens_total` (counter, `type`: input, output)
+ * - `llm_cost_usd_total` (counter)
+ * - `llm_request_duration_seconds` (histogram)
+ * - `llm_errors_total` (counter)
+ *
+ * All are labelled by provider, model, agent (metadata.agent or the
+ * innermost named agent) and context.
+ *
+ * @example
+ * ```typescript
+ * const prometheus = createPrometheusEmitter({ maxLabelValues: { context: 50 } });
+ *
+ * await instrument({ emitMetric: prometheus, sdks: { OpenAI } });
+ *
+ * // Serve on its own port...
+ * await prometheus.listen(9464);
+ *
+ * // ...or mount on an existing server
+ * app.get("/metrics", prometheus.handler);
+ * ```
+ */
+export function createPrometheusEmitter(options: PrometheusEmitterOptions = {}): MetricEmitter & {
+  /** Current metrics in the text exposition format */
+  metrics: () => string;
+  /** Request handler responding with the metrics */
+  handler: (req: IncomingMessage, res: ServerResponse) => void;
+  /** Start an http.Server serving GET /metrics */
+  listen: (port?: number, host?: string) => Promise<Server>;
+  /** Forget all recorded values */
+  reset: () => void;
+} {
+  const prefix = options.prefix ?? "";
+  const buckets = [...(options.durationBuckets ?? DEFAULT_DURATION_BUCKETS)].sort((a, b) => a - b);
+  const limitFor = (label: PrometheusLabel) =>
+    typeof options.maxLabelValues === "number"
+      ? options.maxLabelValues
+      : options.maxLabelValues?.[label] ?? 100;
+
+  const series = new Map<string, Series>();
+  const seenValues = new Map<PrometheusLabel, Set<string>>(LABELS.map((label) => [label, new Set()]));
+
+  // Keep a label value if it was seen before or the label is under its limit
+  const boundedValue = (label: PrometheusLabel, value: string): string => {
+    const seen = seenValues.get(label)!;
+    if (value === "" || seen.has(value)) return value;
+    if (seen.size >= limitFor(label)) {
+      if (!seen.has(OVERFLOW_LABEL_VALUE)) {
+        seen.add(OVERFLOW_LABEL_VALUE);
+        logger.warn(`Prometheus label "${label}" reached ${limitFor(label)} values; new values are reported as "${OVERFLOW_LABEL_VALUE}"`);
+      }
+      return OVERFLOW_LABEL_VALUE;
+    }
+    seen.add(value);
+    return value;
+  };
+
+  const emitter = (event: MetricEvent) => {
+    const labels: Record<PrometheusLabel, string> = {
+      provider: boundedValue("provider", event.provider),
+      model: boundedValue("model", event.model ?? ""),
+      agent: boundedValue("agent", event.metadata?.agent ?? event.agent_stack?.[event.agent_stack.length - 1] ?? ""),
+      context: boundedValue("context", options.getContextId?.() ?? event.metadata?.context_id ?? ""),
+    };
+
+    const key = JSON.stringify(labels);
+    let entry = series.get(key);
+    if (!entry) {
+      entry = {
+        labels,
+        inputTokens: 0,
+        outputTokens: 0,
+        cost: 0,
+        errors: 0,
+        durationCount: 0,
+        durationSum: 0,
+        bucketCounts: new Array(buckets.length + 1).fill(0),
+      };
+      series.set(key, entry);
+    }
+
+    const seconds = event.latency_ms / 1000;
+    entry.inputTokens += event.input_tokens;
+    entry.outputTokens += event.output_tokens;
+    entry.cost += event.total_cost ?? 0;
+    if (event.error) entry.errors++;
+    entry.durationCount++;
+    entry.durationSum += seconds;
+    let bucket = buckets.findIndex((bound) => seconds <= bound);
+    if (bucket === -1) bucket = buckets.length;
+    entry.bucketCounts[bucket]++;
+  };
+
+  const metrics = (): string => {
+    const lines: string[] = [];
+    const all = [...series.values()];
+    const header = (name: string, type: string, help: string) => {
+      lines.push(`# HELP ${prefix}${name} ${help}`, `# TYPE ${prefix}${name} ${type}`);
+    };
+
+    header("llm_tokens_total", "counter", "Tokens used by LLM calls");
+    for (const s of all) {
+      lines.push(`${prefix}llm_tokens_total${formatLabels({ ...s.labels, type: "input" })} ${s.inputTokens}`);
+      lines.push(`${prefix}llm_tokens_total${formatLabels({ ...s.labels, type: "output" })} ${s.outputTokens}`);
+    }
+
+    header("llm_cost_usd_total", "counter", "Cost of LLM calls in USD");
+    for (const s of all) {
+      lines.push(`${prefix}llm_cost_usd_total${formatLabels(s.labels)} ${s.cost}`);
+    }
+
+    header("llm_request_duration_seconds", "histogram", "Duration of LLM calls");
+    for (const s of all) {
+      let cumulative = 0;
+      buckets.forEach((bound, i) => {
+        cumulative += s.bucketCounts[i];
+        lines.push(`${prefix}llm_request_duration_seconds_bucket${formatLabels({ ...s.labels, le: String(bound) })} ${cumulative}`);
+      });
+      lines.push(`${prefix}llm_request_duration_seconds_bucket${formatLabels({ ...s.labels, le: "+Inf" })} ${s.durationCount}`);
+      lines.push(`${prefix}llm_request_duration_seconds_sum${formatLabels(s.labels)} ${s.durationSum}`);
+      lines.push(`${prefix}llm_request_duration_seconds_count${formatLabels(s.labels)} ${s.durationCount}`);
+    }
+
+    header("llm_errors_total", "counter", "Failed LLM calls");
+    for (const s of all) {
+      lines.push(`${prefix}llm_errors_total${formatLabels(s.labels)} ${s.errors}`);
+    }
+
+    return lines.join("\n") + "\n";
+  };
+
+  const handler = (_req: IncomingMessage, res: ServerResponse) => {
+    res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+    res.end(metrics());
+  };
+
+  emitter.metrics = metrics;
+  emitter.handler = handler;
+  emitter.listen = (port: number = 9464, host?: string) =>
+    new Promise<Server>((resolve, reject) => {
+      const server = createServer((req, res) => {
+        if (req.method === "GET" && req.url?.split("?")[0] === "/metrics") {
+          handler(req, res);
+        } else {
+          res.writeHead(404).end();
+        }
+      });
+      server.once("error", reject);
+      server.listen(port, host, () => resolve(server));
+    });
+  emitter.reset = () => {
+    series.clear();
+    for (const seen of seenValues.values()) seen.clear();
+  };
+
+  return emitter;
+}
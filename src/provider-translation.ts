@@ -0,0 +1,815 @@
+/**
+ * Provider translation - serve a request degraded to another vendor
+ *
+ * A degrade decision may name a different provider (e.g. an Anthropic
+ * messages.create degraded to an OpenAI chat completion when the Anthropic
+ * budget runs out). The request is translated to the target provider's
+ * format, sent through the client configured in `degradeClients`, and the
+ * response is translated back so the caller gets the shape it expects.
+ *
+ * Translation goes through the OpenAI Chat Completions format: every
+ * provider converts to and from it, so each pair of providers works.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import { logger } from "./logging.js";
+import type { DegradeClients, MetricEvent } from "./types.js";
+
+/**
+ * Providers whose requests and responses can be translated
+ */
+export type TranslatableProvider = "openai" | "anthropic" | "gemini";
+
+/** Providers that can be degraded away from (their SDK call is intercepted) */
+type SourceProvider = Exclude<TranslatableProvider, "gemini">;
+
+type Params = Record<string, unknown>;
+type ChatMessage = Record<string, unknown>;
+
+/** Used when an OpenAI or Gemini request gives no output limit (Anthropic requires one) */
+const DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * Where a translated request came from
+ */
+interface TranslationOrigin {
+  provider: SourceProvider;
+  model: string;
+}
+
+const originStorage = new AsyncLocalStorage<TranslationOrigin>();
+
+// Degraded request params -> target provider (set by the beforeRequest handling)
+const crossProviderTargets = new WeakMap<object, TranslatableProvider>();
+
+// =============================================================================
+// Degrade targets
+// =============================================================================
+
+/**
+ * Params for a degrade to another provider. When the request can be
+ * translated they carry the new model and are marked for `to`; otherwise
+ * the original params are returned and the request stays with the original
+ * provider and model.
+ *
+ * Requests that are already a translation are not moved again, so two
+ * degradation rules pointing at each other cannot loop.
+ */
+export function crossProviderParams(
+  from: string,
+  params: Params,
+  to: string,
+  toModel: string,
+  clients: DegradeClients | undefined
+): Params {
+  const origin = originStorage.getStore();
+  let problem: string | null = null;
+  if (origin) {
+    problem = `request was already degraded from ${origin.provider} ${origin.model}`;
+  } else if (!Array.isArray(params.messages)) {
+    problem = "only chat / messages requests can be translated";
+  } else if (!canTranslate(from, to, clients)) {
+    problem = `no ${to} client in degradeClients`;
+  }
+
+  if (problem) {
+    logger.warn(`Cannot degrade ${from} ${params.model} to ${to} ${toModel} (${problem}); keeping the original model`);
+    return params;
+  }
+
+  const degraded = { ...params, model: toModel };
+  crossProviderTargets.set(degraded, to as TranslatableProvider);
+  return degraded;
+}
+
+/**
+ * Provider that should serve these params instead of the intercepted SDK
+ */
+export function getCrossProviderTarget(params: Params): TranslatableProvider | undefined {
+  return crossProviderTargets.get(params);
+}
+
+/**
+ * Tag a metric event of a translated request with the provider and model
+ * the caller asked for (metadata degraded_from_provider / degraded_from_model)
+ */
+export function applyTranslationOrigin(event: MetricEvent): MetricEvent {
+  const origin = originStorage.getStore();
+  if (origin) {
+    event.metadata = {
+      ...event.metadata,
+      degraded_from_provider: origin.provider,
+      degraded_from_model: origin.model,
+    };
+  }
+  return event;
+}
+
+// =============================================================================
+// Shared helpers
+// =============================================================================
+
+function asArray<T = unknown>(value: unknown): T[] {
+  return Array.isArray(value) ? (value as T[]) : [];
+}
+
+function parseJson(text: unknown): unknown {
+  if (typeof text !== "string") return text ?? {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Plain text of OpenAI message content (a string or a list of parts)
+ */
+function chatContentText(content: unknown): string {
+  if (typeof content === "string") return content;
+  return asArray<Record<string, unknown>>(content)
+    .filter((part) => part.type === "text")
+    .map((part) => part.text as string)
+    .join("");
+}
+
+/**
+ * Split a data: URL into media type and base64 data
+ */
+function parseDataUrl(url: string): { mediaType: string; data: string } | null {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(url);
+  return match ? { mediaType: match[1], data: match[2] } : null;
+}
+
+/** Chat params the Anthropic and Gemini requests have no equivalent for */
+const UNTRANSLATED_CHAT_PARAMS = [
+  "response_format",
+  "seed",
+  "logprobs",
+  "top_logprobs",
+  "presence_penalty",
+  "frequency_penalty",
+  "logit_bias",
+];
+
+/** Anthropic params the chat request has no equivalent for */
+const UNTRANSLATED_ANTHROPIC_PARAMS = ["thinking", "top_k"];
+
+/**
+ * Parts of a request that translation drops, e.g. ["response_format", "document blocks"]
+ */
+function untranslatedFeatures(from: SourceProvider, params: Params): string[] {
+  const dropped: string[] = [];
+  const contentTypes = new Set<string>();
+  const translatedTypes = from === "anthropic" ? ["text", "image", "tool_use", "tool_result"] : ["text", "image_url"];
+
+  if (from === "anthropic") {
+    dropped.push(...UNTRANSLATED_ANTHROPIC_PARAMS.filter((key) => params[key] != null));
+  } else {
+    dropped.push(...UNTRANSLATED_CHAT_PARAMS.filter((key) => params[key] != null));
+    if (typeof params.n === "number" && params.n > 1) dropped.push("n");
+  }
+
+  for (const message of asArray<Record<string, unknown>>(params.messages)) {
+    // Only user content parts are translated from chat messages
+    if (from === "openai" && message.role !== "user") continue;
+    for (const block of asArray<Record<string, unknown>>(message.content)) {
+      if (!translatedTypes.includes(block.type as string)) contentTypes.add(String(block.type));
+    }
+  }
+  dropped.push(...[...contentTypes].map((type) => `${type} ${from === "anthropic" ? "blocks" : "parts"}`));
+  return dropped;
+}
+
+/**
+ * Copy the sampling fields shared by every provider
+ */
+function copyIfSet(target: Params, key: string, value: unknown): void {
+  if (value !== undefined && value !== null) target[key] = value;
+}
+
+// =============================================================================
+// Anthropic <-> Chat
+// =============================================================================
+
+/**
+ * Anthropic messages.create params -> OpenAI chat params
+ */
+function anthropicRequestToChat(params: Params): Params {
+  const messages: ChatMessage[] = [];
+
+  if (params.system) {
+    const system =
+      typeof params.system === "string"
+        ? params.system
+        : asArray<Record<string, unknown>>(params.system).map((b) => b.text as string).join("\n");
+    messages.push({ role: "system", content: system });
+  }
+
+  for (const message of asArray<Record<string, unknown>>(params.messages)) {
+    if (typeof message.content === "string") {
+      messages.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    const parts: Array<Record<string, unknown>> = [];
+    const toolCalls: Array<Record<string, unknown>> = [];
+    for (const block of asArray<Record<string, unknown>>(message.content)) {
+      switch (block.type) {
+        case "text":
+          parts.push({ type: "text", text: block.text });
+          break;
+        case "image": {
+          const source = block.source as Record<string, unknown>;
+          const url = source.type === "url" ? source.url : `data:${source.media_type};base64,${source.data}`;
+          parts.push({ type: "image_url", image_url: { url } });
+          break;
+        }
+        case "tool_use":
+          toolCalls.push({
+            id: block.id,
+            type: "function",
+            function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+          });
+          break;
+        case "tool_result": {
+          // Tool results become separate tool messages
+          const content = typeof block.content === "string" ? block.content : chatContentText(block.content);
+          messages.push({ role: "tool", tool_call_id: block.tool_use_id, content });
+          break;
+        }
+      }
+    }
+
+    if (message.role === "assistant") {
+      const text = parts.map((p) => p.text ?? "").join("");
+      messages.push({
+        role: "assistant",
+        content: text || null,
+        ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+      });
+    } else if (parts.length > 0) {
+      messages.push({ role: "user", content: parts });
+    }
+  }
+
+  const chat: Params = { model: params.model, messages };
+  copyIfSet(chat, "max_completion_tokens", params.max_tokens);
+  copyIfSet(chat, "temperature", params.temperature);
+  copyIfSet(chat, "top_p", params.top_p);
+  copyIfSet(chat, "stop", params.stop_sequences);
+
+  const tools = asArray<Record<string, unknown>>(params.tools).filter((t) => t.input_schema);
+  if (tools.length > 0) {
+    chat.tools = tools.map((tool) => ({
+      type: "function",
+      function: { name: tool.name, description: tool.description, parameters: tool.input_schema },
+    }));
+  }
+
+  const toolChoice = params.tool_choice as Record<string, unknown> | undefined;
+  if (toolChoice) {
+    chat.tool_choice =
+      toolChoice.type === "tool"
+        ? { type: "function", function: { name: toolChoice.name } }
+        : ({ auto: "auto", any: "required", none: "none" } as Record<string, string>)[toolChoice.type as string];
+  }
+
+  return chat;
+}
+
+/**
+ * OpenAI chat params -> Anthropic messages.create params
+ */
+function chatRequestToAnthropic(chat: Params, model: string): Params {
+  const system: string[] = [];
+  const messages: Array<{ role: string; content: Array<Record<string, unknown>> }> = [];
+
+  // Anthropic requires alternating roles: merge consecutive messages of one role
+  const push = (role: string, blocks: Array<Record<string, unknown>>) => {
+    const last = messages[messages.length - 1];
+    if (last?.role === role) {
+      last.content.push(...blocks);
+    } else if (blocks.length > 0) {
+      messages.push({ role, content: blocks });
+    }
+  };
+
+  for (const message of asArray<Record<string, unknown>>(chat.messages)) {
+    switch (message.role) {
+      case "system":
+      case "developer":
+        system.push(chatContentText(message.content));
+        break;
+
+      case "tool":
+        push("user", [
+          { type: "tool_result", tool_use_id: message.tool_call_id, content: chatContentText(message.content) },
+        ]);
+        break;
+
+      case "assistant": {
+        const blocks: Array<Record<string, unknown>> = [];
+        const text = chatContentText(message.content);
+        if (text) blocks.push({ type: "text", text });
+        for (const call of asArray<Record<string, unknown>>(message.tool_calls)) {
+          const fn = call.function as Record<string, unknown>;
+          blocks.push({ type: "tool_use", id: call.id, name: fn.name, input: parseJson(fn.arguments) });
+        }
+        push("assistant", blocks);
+        break;
+      }
+
+      default: {
+        if (typeof message.content === "string") {
+          push("user", [{ type: "text", text: message.content }]);
+          break;
+        }
+        const blocks = asArray<Record<string, unknown>>(message.content).flatMap((part): Params[] => {
+          if (part.type === "text") return [{ type: "text", text: part.text }];
+          if (part.type === "image_url") {
+            const url = (part.image_url as Record<string, unknown>).url as string;
+            const data = parseDataUrl(url);
+            return [
+              {
+                type: "image",
+                source: data
+                  ? { type: "base64", media_type: data.mediaType, data: data.data }
+                  : { type: "url", url },
+              },
+            ];
+          }
+          return [];
+        });
+        push("user", blocks);
+      }
+    }
+  }
+
+  const params: Params = {
+    model,
+    messages,
+    max_tokens: chat.max_completion_tokens ?? chat.max_tokens ?? DEFAULT_MAX_TOKENS,
+  };
+  if (system.length > 0) params.system = system.join("\n\n");
+  // OpenAI temperatures go up to 2, Anthropic's up to 1
+  if (typeof chat.temperature === "number") params.temperature = Math.min(chat.temperature, 1);
+  copyIfSet(params, "top_p", chat.top_p);
+  if (chat.stop) params.stop_sequences = Array.isArray(chat.stop) ? chat.stop : [chat.stop];
+
+  const tools = asArray<Record<string, unknown>>(chat.tools).filter((t) => t.type === "function");
+  if (tools.length > 0) {
+    params.tools = tools.map((tool) => {
+      const fn = tool.function as Record<string, unknown>;
+      return {
+        name: fn.name,
+        ...(fn.description !== undefined && { description: fn.description }),
+        input_schema: fn.parameters ?? { type: "object", properties: {} },
+      };
+    });
+  }
+
+  if (chat.tool_choice) {
+    const choice = chat.tool_choice as string | Record<string, unknown>;
+    params.tool_choice =
+      typeof choice === "string"
+        ? { type: ({ auto: "auto", required: "any", none: "none" } as Record<string, string>)[choice] ?? "auto" }
+        : { type: "tool", name: (choice.function as Record<string, unknown>).name };
+  }
+
+  return params;
+}
+
+const ANTHROPIC_STOP_REASONS: Record<string, string> = {
+  end_turn: "stop",
+  stop_sequence: "stop",
+  max_tokens: "length",
+  tool_use: "tool_calls",
+  refusal: "content_filter",
+};
+
+/**
+ * Anthropic Message -> OpenAI chat completion
+ */
+function anthropicResponseToChat(response: Params): Params {
+  const content = asArray<Record<string, unknown>>(response.content);
+  const text = content.filter((b) => b.type === "text").map((b) => b.text as string).join("");
+  const toolCalls = content
+    .filter((b) => b.type === "tool_use")
+    .map((b) => ({
+      id: b.id,
+      type: "function",
+      function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) },
+    }));
+
+  const usage = (response.usage ?? {}) as Record<string, number | undefined>;
+  const promptTokens =
+    (usage.input_tokens ?? 0) + (usage.cache_read_input_tokens ?? 0) + (usage.cache_creation_input_tokens ?? 0);
+
+  return {
+    id: response.id,
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: response.model,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: "assistant",
+          content: text || null,
+          refusal: null,
+          ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+        },
+        logprobs: null,
+        finish_reason: ANTHROPIC_STOP_REASONS[response.stop_reason as string] ?? "stop",
+      },
+    ],
+    usage: {
+      prompt_tokens: promptTokens,
+      completion_tokens: usage.output_tokens ?? 0,
+      total_tokens: promptTokens + (usage.output_tokens ?? 0),
+      ...(usage.cache_read_input_tokens && {
+        prompt_tokens_details: { cached_tokens: usage.cache_read_input_tokens },
+      }),
+    },
+  };
+}
+
+const CHAT_FINISH_REASONS: Record<string, string> = {
+  stop: "end_turn",
+  length: "max_tokens",
+  tool_calls: "tool_use",
+  function_call: "tool_use",
+  content_filter: "refusal",
+};
+
+/**
+ * OpenAI chat completion -> Anthropic Message
+ */
+function chatResponseToAnthropic(chat: Params): Params {
+  const choice = (asArray<Record<string, unknown>>(chat.choices)[0] ?? {}) as Record<string, unknown>;
+  const message = (choice.message ?? {}) as Record<string, unknown>;
+  const content: Array<Record<string, unknown>> = [];
+
+  const text = chatContentText(message.content);
+  if (text) content.push({ type: "text", text, citations: null });
+  for (const call of asArray<Record<string, unknown>>(message.tool_calls)) {
+    const fn = call.function as Record<string, unknown>;
+    content.push({ type: "tool_use", id: call.id, name: fn.name, input: parseJson(fn.arguments) });
+  }
+
+  const usage = (chat.usage ?? {}) as Record<string, unknown>;
+  const cached = ((usage.prompt_tokens_details ?? {}) as Record<string, number>).cached_tokens ?? 0;
+
+  return {
+    id: chat.id ?? `msg_${randomUUID()}`,
+    type: "message",
+    role: "assistant",
+    model: chat.model,
+    content,
+    stop_reason: CHAT_FINISH_REASONS[choice.finish_reason as string] ?? "end_turn",
+    stop_sequence: null,
+    usage: {
+      input_tokens: ((usage.prompt_tokens as number) ?? 0) - cached,
+      output_tokens: (usage.completion_tokens as number) ?? 0,
+      cache_read_input_tokens: cached,
+      cache_creation_input_tokens: 0,
+    },
+  };
+}
+
+// =============================================================================
+// Gemini <-> Chat (Gemini is a target only)
+// =============================================================================
+
+/**
+ * OpenAI chat params -> @google/genai models.generateContent params
+ */
+function chatRequestToGemini(chat: Params, model: string): Params {
+  const system: string[] = [];
+  const contents: Array<{ role: string; parts: Array<Record<string, unknown>> }> = [];
+  // Gemini answers tool calls by function name, not by call id
+  const toolNames = new Map<string, string>();
+
+  const push = (role: string, parts: Array<Record<string, unknown>>) => {
+    const last = contents[contents.length - 1];
+    if (last?.role === role) {
+      last.parts.push(...parts);
+    } else if (parts.length > 0) {
+      contents.push({ role, parts });
+    }
+  };
+
+  for (const message of asArray<Record<string, unknown>>(chat.messages)) {
+    switch (message.role) {
+      case "system":
+      case "developer":
+        system.push(chatContentText(message.content));
+        break;
+
+      case "tool":
+        push("user", [
+          {
+            functionResponse: {
+              name: toolNames.get(message.tool_call_id as string) ?? "tool",
+              response: { result: chatContentText(message.content) },
+            },
+          },
+        ]);
+        break;
+
+      case "assistant": {
+        const parts: Array<Record<string, unknown>> = [];
+        const text = chatContentText(message.content);
+        if (text) parts.push({ text });
+        for (const call of asArray<Record<string, unknown>>(message.tool_calls)) {
+          const fn = call.function as Record<string, unknown>;
+          toolNames.set(call.id as string, fn.name as string);
+          parts.push({ functionCall: { name: fn.name, args: parseJson(fn.arguments) } });
+        }
+        push("model", parts);
+        break;
+      }
+
+      default: {
+        if (typeof message.content === "string") {
+          push("user", [{ text: message.content }]);
+          break;
+        }
+        const parts = asArray<Record<string, unknown>>(message.content).flatMap((part): Params[] => {
+          if (part.type === "text") return [{ text: part.text }];
+          if (part.type === "image_url") {
+            const url = (part.image_url as Record<string, unknown>).url as string;
+            const data = parseDataUrl(url);
+            return [data ? { inlineData: { mimeType: data.mediaType, data: data.data } } : { fileData: { fileUri: url } }];
+          }
+          return [];
+        });
+        push("user", parts);
+      }
+    }
+  }
+
+  const config: Params = {};
+  if (system.length > 0) config.systemInstruction = system.join("\n\n");
+  copyIfSet(config, "maxOutputTokens", chat.max_completion_tokens ?? chat.max_tokens);
+  copyIfSet(config, "temperature", chat.temperature);
+  copyIfSet(config, "topP", chat.top_p);
+  if (chat.stop) config.stopSequences = Array.isArray(chat.stop) ? chat.stop : [chat.stop];
+
+  const tools = asArray<Record<string, unknown>>(chat.tools).filter((t) => t.type === "function");
+  if (tools.length > 0) {
+    config.tools = [
+      {
+        functionDeclarations: tools.map((tool) => {
+          const fn = tool.function as Record<string, unknown>;
+          return { name: fn.name, description: fn.description, parameters: fn.parameters };
+        }),
+      },
+    ];
+  }
+  if (chat.tool_choice) {
+    const choice = chat.tool_choice as string | Record<string, unknown>;
+    config.toolConfig = {
+      functionCallingConfig:
+        typeof choice === "string"
+          ? { mode: ({ auto: "AUTO", required: "ANY", none: "NONE" } as Record<string, string>)[choice] ?? "AUTO" }
+          : { mode: "ANY", allowedFunctionNames: [(choice.function as Record<string, unknown>).name] },
+    };
+  }
+
+  return { model, contents, config };
+}
+
+const GEMINI_FINISH_REASONS: Record<string, string> = {
+  STOP: "stop",
+  MAX_TOKENS: "length",
+  SAFETY: "content_filter",
+  RECITATION: "content_filter",
+  BLOCKLIST: "content_filter",
+  PROHIBITED_CONTENT: "content_filter",
+  SPII: "content_filter",
+};
+
+/**
+ * @google/genai GenerateContentResponse -> OpenAI chat completion
+ */
+function geminiResponseToChat(response: Params, model: string): Params {
+  const candidate = (asArray<Record<string, unknown>>(response.candidates)[0] ?? {}) as Record<string, unknown>;
+  const parts = asArray<Record<string, unknown>>((candidate.content as Record<string, unknown> | undefined)?.parts);
+
+  // Thought summaries are not part of the answer
+  const text = parts.filter((p) => typeof p.text === "string" && !p.thought).map((p) => p.text as string).join("");
+  const toolCalls = parts
+    .filter((p) => p.functionCall)
+    .map((p) => {
+      const call = p.functionCall as Record<string, unknown>;
+      return {
+        id: (call.id as string | undefined) ?? `call_${randomUUID()}`,
+        type: "function",
+        function: { name: call.name, arguments: JSON.stringify(call.args ?? {}) },
+      };
+    });
+
+  const usage = (response.usageMetadata ?? {}) as Record<string, number | undefined>;
+  const completionTokens = (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0);
+
+  return {
+    id: (response.responseId as string | undefined) ?? `chatcmpl-${randomUUID()}`,
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: (response.modelVersion as string | undefined) ?? model,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: "assistant",
+          content: text || null,
+          refusal: null,
+          ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+        },
+        logprobs: null,
+        finish_reason:
+          toolCalls.length > 0 ? "tool_calls" : GEMINI_FINISH_REASONS[candidate.finishReason as string] ?? "stop",
+      },
+    ],
+    usage: {
+      prompt_tokens: usage.promptTokenCount ?? 0,
+      completion_tokens: completionTokens,
+      total_tokens: usage.totalTokenCount ?? (usage.promptTokenCount ?? 0) + completionTokens,
+      ...(usage.cachedContentTokenCount && {
+        prompt_tokens_details: { cached_tokens: usage.cachedContentTokenCount },
+      }),
+      ...(usage.thoughtsTokenCount && {
+        completion_tokens_details: { reasoning_tokens: usage.thoughtsTokenCount },
+      }),
+    },
+  };
+}
+
+// =============================================================================
+// Synthetic streams
+// =============================================================================
+
+/**
+ * Replay a finished response as a stream of the caller's event format.
+ * Translated requests are always sent without streaming; `controller`
+ * mirrors the SDK Stream property the SDK's own stream helpers read.
+ */
+function replayAsStream(events: unknown[]): AsyncIterable<unknown> & { controller: AbortController } {
+  return {
+    controller: new AbortController(),
+    async *[Symbol.asyncIterator]() {
+      yield* events;
+    },
+  };
+}
+
+/**
+ * OpenAI chat completion -> chat.completion.chunk events
+ */
+function chatCompletionChunks(chat: Params, includeUsage: boolean): unknown[] {
+  const choice = (asArray<Record<string, unknown>>(chat.choices)[0] ?? {}) as Record<string, unknown>;
+  const message = (choice.message ?? {}) as Record<string, unknown>;
+  const base = { id: chat.id, object: "chat.completion.chunk", created: chat.created, model: chat.model };
+
+  const toolCalls = asArray<Record<string, unknown>>(message.tool_calls).map((call, index) => ({ index, ...call }));
+  const chunks: unknown[] = [
+    {
+      ...base,
+      choices: [
+        {
+          index: 0,
+          delta: {
+            role: "assistant",
+            content: message.content ?? null,
+            ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+          },
+          finish_reason: null,
+        },
+      ],
+    },
+    { ...base, choices: [{ index: 0, delta: {}, finish_reason: choice.finish_reason }] },
+  ];
+  if (includeUsage) {
+    chunks.push({ ...base, choices: [], usage: chat.usage });
+  }
+  return chunks;
+}
+
+/**
+ * Anthropic Message -> message_start ... message_stop events
+ */
+function anthropicMessageEvents(message: Params): unknown[] {
+  const usage = message.usage as Record<string, number>;
+  const events: unknown[] = [
+    {
+      type: "message_start",
+      message: { ...message, content: [], stop_reason: null, usage: { ...usage, output_tokens: 0 } },
+    },
+  ];
+
+  asArray<Record<string, unknown>>(message.content).forEach((block, index) => {
+    if (block.type === "text") {
+      events.push({ type: "content_block_start", index, content_block: { type: "text", text: "" } });
+      events.push({ type: "content_block_delta", index, delta: { type: "text_delta", text: block.text } });
+    } else {
+      events.push({ type: "content_block_start", index, content_block: { ...block, input: {} } });
+      events.push({
+        type: "content_block_delta",
+        index,
+        delta: { type: "input_json_delta", partial_json: JSON.stringify(block.input ?? {}) },
+      });
+    }
+    events.push({ type: "content_block_stop", index });
+  });
+
+  events.push({
+    type: "message_delta",
+    delta: { stop_reason: message.stop_reason, stop_sequence: null },
+    usage: { output_tokens: usage.output_tokens },
+  });
+  events.push({ type: "message_stop" });
+  return events;
+}
+
+// =============================================================================
+// Calls
+// =============================================================================
+
+/**
+ * Whether a request from `from` can be served by `to` with the given clients
+ */
+export function canTranslate(from: string, to: string, clients: DegradeClients | undefined): boolean {
+  if (from !== "openai" && from !== "anthropic") return false;
+  switch (to) {
+    case "openai":
+      return !!clients?.openai?.chat?.completions;
+    case "anthropic":
+      return !!clients?.anthropic?.messages;
+    case "gemini":
+      return !!clients?.gemini?.models;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Serve an OpenAI chat completion or Anthropic message request with another
+ * provider's client and return the response in the caller's format.
+ * Streaming requests get the finished response replayed as a stream.
+ *
+ * The target SDK call is metered by its own instrumentation (when that SDK
+ * is instrumented), tagged with metadata.degraded_from_provider/model.
+ *
+ * @throws Error if no client is configured for the target provider
+ */
+export async function callTranslated(
+  from: SourceProvider,
+  params: Params,
+  to: TranslatableProvider,
+  originalModel: string,
+  clients: DegradeClients | undefined
+): Promise<unknown> {
+  if (!canTranslate(from, to, clients)) {
+    throw new Error(`Cannot degrade ${from} to ${to}: no ${to} client in degradeClients`);
+  }
+
+  const model = params.model as string;
+  const stream = !!params.stream;
+  const dropped = untranslatedFeatures(from, params);
+  if (dropped.length > 0) {
+    logger.warn(`Degrading ${from} ${originalModel} to ${to} ${model} drops ${dropped.join(", ")}`);
+  }
+  const chat = from === "anthropic" ? anthropicRequestToChat(params) : { ...params };
+  delete chat.stream;
+  delete chat.stream_options;
+
+  const chatResponse = await originStorage.run({ provider: from, model: originalModel }, async () => {
+    switch (to) {
+      case "anthropic": {
+        const message = await clients!.anthropic.messages.create(chatRequestToAnthropic(chat, model));
+        return anthropicResponseToChat(message);
+      }
+      case "gemini": {
+        const response = await clients!.gemini.models.generateContent(chatRequestToGemini(chat, model));
+        return geminiResponseToChat(response, model);
+      }
+      default:
+        return clients!.openai.chat.completions.create({ ...chat, model }) as Promise<Params>;
+    }
+  });
+
+  logger.debug(`Served ${from} ${originalModel} request with ${to} ${model}`);
+
+  if (from === "anthropic") {
+    const message = chatResponseToAnthropic(chatResponse);
+    return stream ? replayAsStream(anthropicMessageEvents(message)) : message;
+  }
+  if (stream) {
+    const includeUsage = !!(params.stream_options as Record<string, unknown> | undefined)?.include_usage;
+    return replayAsStream(chatCompletionChunks(chatResponse, includeUsage));
+  }
+  return chatResponse;
+}
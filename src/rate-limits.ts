@@ -0,0 +1,328 @@
+/**
+ * Provider rate limits - parse rate-limit headers and track remaining capacity
+ *
+ * OpenAI reports limits in `x-ratelimit-*` headers and Anthropic in
+ * `anthropic-ratelimit-*` headers. Instrumentation copies them onto metric
+ * events; the tracker keeps the latest values per provider and model so
+ * requests can be delayed or degraded before they hit a 429.
+ */
+
+import type { MetricEvent, RateLimitInfo } from "./types.js";
+
+/**
+ * Response headers as a fetch Headers object or a plain record
+ * (SDK errors carry either)
+ */
+type HeaderSource =
+  | { get(name: string): string | null }
+  | Record<string, string | string[] | null | undefined>;
+
+function headerGetter(headers: HeaderSource): (name: string) => string | undefined {
+  if (typeof (headers as { get?: unknown }).get === "function") {
+    return (name) => (headers as { get(name: string): string | null }).get(name) ?? undefined;
+  }
+  const record = headers as Record<string, string | string[] | null | undefined>;
+  return (name) => {
+    const value = record[name] ?? record[name.toLowerCase()];
+    return (Array.isArray(value) ? value[0] : value) ?? undefined;
+  };
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Parse an OpenAI reset duration ("1s", "6m0s", "20ms", "1h2m3.5s") to seconds
+ */
+function parseDuration(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const units: Record<string, number> = { h: 3600, m: 60, s: 1, ms: 0.001 };
+  let seconds = 0;
+  let matched = false;
+  for (const [, amount, unit] of value.matchAll(/([\d.]+)(ms|h|m|s)/g)) {
+    seconds += Number(amount) * units[unit];
+    matched = true;
+  }
+  return matched ? seconds : toNumber(value);
+}
+
+/**
+ * Parse an Anthropic reset timestamp (RFC 3339) to seconds from now
+ */
+function parseResetTime(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const at = Date.parse(value);
+  return Number.isNaN(at) ? undefined : Math.max(0, (at - Date.now()) / 1000);
+}
+
+/**
+ * Parse OpenAI (`x-ratelimit-*`) or Anthropic (`anthropic-ratelimit-*`)
+ * rate-limit headers, plus `retry-after`. Returns null if none are present.
+ */
+export function parseRateLimitHeaders(headers: HeaderSource | null | undefined): RateLimitInfo | null {
+  if (!headers) return null;
+  const get = headerGetter(headers);
+  let info: RateLimitInfo;
+
+  if (get("anthropic-ratelimit-requests-limit") !== undefined || get("anthropic-ratelimit-tokens-limit") !== undefined) {
+    // tokens-* is the most restrictive of the input and output token limits
+    info = {
+      limit_requests: toNumber(get("anthropic-ratelimit-requests-limit")),
+      remaining_requests: toNumber(get("anthropic-ratelimit-requests-remaining")),
+      reset_requests: parseResetTime(get("anthropic-ratelimit-requests-reset")),
+      limit_tokens: toNumber(get("anthropic-ratelimit-tokens-limit")),
+      remaining_tokens: toNumber(get("anthropic-ratelimit-tokens-remaining")),
+      reset_tokens: parseResetTime(get("anthropic-ratelimit-tokens-reset")),
+    };
+  } else {
+    info = {
+      limit_requests: toNumber(get("x-ratelimit-limit-requests")),
+      remaining_requests: toNumber(get("x-ratelimit-remaining-requests")),
+      reset_requests: parseDuration(get("x-ratelimit-reset-requests")),
+      limit_tokens: toNumber(get("x-ratelimit-limit-tokens")),
+      remaining_tokens: toNumber(get("x-ratelimit-remaining-tokens")),
+      reset_tokens: parseDuration(get("x-ratelimit-reset-tokens")),
+    };
+  }
+
+  const retryAfter = get("retry-after");
+  if (retryAfter !== undefined) {
+    info.retry_after = toNumber(retryAfter) ?? parseResetTime(retryAfter);
+  }
+
+  const present = Object.values(info).some((v) => v !== undefined);
+  return present ? info : null;
+}
+
+/**
+ * Read rate-limit headers from an SDK APIPromise (openai, @anthropic-ai/sdk)
+ * or an SDK error. The response was already received, so no new request is made.
+ */
+export async function readRateLimitInfo(source: unknown): Promise<RateLimitInfo | null> {
+  try {
+    const candidate = source as { asResponse?: () => Promise<{ headers: HeaderSource }>; headers?: HeaderSource } | null;
+    if (typeof candidate?.asResponse === "function") {
+      return parseRateLimitHeaders((await candidate.asResponse()).headers);
+    }
+    return parseRateLimitHeaders(candidate?.headers);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Copy rate-limit info onto a metric event's flat rate_limit_* fields
+ */
+export function applyRateLimitInfo(event: MetricEvent, info: RateLimitInfo | null): MetricEvent {
+  if (!info) return event;
+  if (info.remaining_requests !== undefined) event.rate_limit_remaining_requests = info.remaining_requests;
+  if (info.remaining_tokens !== undefined) event.rate_limit_remaining_tokens = info.remaining_tokens;
+  if (info.reset_requests !== undefined) event.rate_limit_reset_requests = info.reset_requests;
+  if (info.reset_tokens !== undefined) event.rate_limit_reset_tokens = info.reset_tokens;
+  if (info.limit_requests !== undefined) event.rate_limit_limit_requests = info.limit_requests;
+  if (info.limit_tokens !== undefined) event.rate_limit_limit_tokens = info.limit_tokens;
+  if (info.retry_after !== undefined) event.rate_limit_retry_after = info.retry_after;
+  return event;
+}
+
+// =============================================================================
+// Tracker
+// =============================================================================
+
+/**
+ * Options for the rate-limit tracker
+ */
+export interface RateLimitTrackerOptions {
+  /**
+   * Treat capacity as running out when less than this percentage of the
+   * limit remains. Default: 5
+   */
+  headroomPercent?: number;
+  /** Longest delay to suggest (ms). Default: 30000 */
+  maxDelayMs?: number;
+}
+
+/**
+ * Suggested action for a request whose provider capacity is running out
+ */
+export interface RateLimitCheck {
+  /** How long to wait before sending (ms) */
+  delayMs: number;
+  /** Which limit is running out */
+  reason: string;
+}
+
+/**
+ * Latest known capacity of one limit (requests or tokens)
+ */
+interface LimitState {
+  limit?: number;
+  remaining: number;
+  /** When the limit is fully replenished (epoch ms) */
+  resetAt: number;
+}
+
+interface ProviderModelState {
+  requests?: LimitState;
+  tokens?: LimitState;
+  /** No requests before this time (epoch ms), from retry-after */
+  retryAfterUntil?: number;
+}
+
+/**
+ * Tracks provider rate limits per provider and model from metric events.
+ *
+ * Providers replenish capacity continuously, so when a limit is known the
+ * suggested delay is the time to regain enough capacity rather than the
+ * time to a full reset.
+ *
+ * @example
+ * ```typescript
+ * const tracker = new RateLimitTracker();
+ * instrument({
+ *   emitMetric: (event) => tracker.update(event),
+ *   beforeRequest: async (params, context) => {
+ *     const check = tracker.check(context.provider ?? "openai", context.model);
+ *     return check ? { action: "throttle", delayMs: check.delayMs } : { action: "proceed" };
+ *   },
+ * });
+ * ```
+ */
+export class RateLimitTracker {
+  private readonly headroom: number;
+  private readonly maxDelayMs: number;
+  private states: Map<string, ProviderModelState> = new Map();
+
+  constructor(options: RateLimitTrackerOptions = {}) {
+    this.headroom = (options.headroomPercent ?? 5) / 100;
+    this.maxDelayMs = options.maxDelayMs ?? 30000;
+  }
+
+  /**
+   * Record the rate-limit fields of a metric event
+   */
+  update(event: MetricEvent): void {
+    const now = Date.now();
+    const state = this.states.get(this.key(event.provider, event.model)) ?? {};
+    let changed = false;
+
+    if (event.rate_limit_remaining_requests !== undefined) {
+      state.requests = {
+        limit: event.rate_limit_limit_requests,
+        remaining: event.rate_limit_remaining_requests,
+        resetAt: now + (event.rate_limit_reset_requests ?? 60) * 1000,
+      };
+      changed = true;
+    }
+    if (event.rate_limit_remaining_tokens !== undefined) {
+      state.tokens = {
+        limit: event.rate_limit_limit_tokens,
+        remaining: event.rate_limit_remaining_tokens,
+        resetAt: now + (event.rate_limit_reset_tokens ?? 60) * 1000,
+      };
+      changed = true;
+    }
+    if (event.rate_limit_retry_after !== undefined) {
+      state.retryAfterUntil = now + event.rate_limit_retry_after * 1000;
+      changed = true;
+    }
+
+    if (changed) {
+      this.states.set(this.key(event.provider, event.model), state);
+    }
+  }
+
+  /**
+   * Check whether a request should wait for provider capacity.
+   * Requests that may go ahead are counted against the remaining capacity,
+   * so a burst between two responses is throttled as well.
+   *
+   * @returns the suggested delay, or null if there is enough capacity
+   */
+  check(provider: string, model: string, estimatedTokens: number = 0): RateLimitCheck | null {
+    const state = this.states.get(this.key(provider, model));
+    if (!state) return null;
+
+    const now = Date.now();
+    let result: RateLimitCheck | null = null;
+    const consider = (delayMs: number, reason: string) => {
+      if (delayMs > 0 && (!result || delayMs > result.delayMs)) {
+        result = { delayMs: Math.min(Math.ceil(delayMs), this.maxDelayMs), reason };
+      }
+    };
+
+    if (state.retryAfterUntil && state.retryAfterUntil > now) {
+      consider(state.retryAfterUntil - now, `${provider} asked to retry after ${new Date(state.retryAfterUntil).toISOString()}`);
+    }
+    consider(this.delayFor(state.requests, 1, now), `${provider} ${model} request limit nearly exhausted`);
+    consider(this.delayFor(state.tokens, estimatedTokens, now), `${provider} ${model} token limit nearly exhausted`);
+
+    if (!result) {
+      if (state.requests) state.requests.remaining -= 1;
+      if (state.tokens) state.tokens.remaining -= estimatedTokens;
+    }
+    return result;
+  }
+
+  /**
+   * Forget all tracked limits
+   */
+  clear(): void {
+    this.states.clear();
+  }
+
+  /**
+   * Time until a limit has room for `needed` units above the headroom
+   */
+  private delayFor(limit: LimitState | undefined, needed: number, now: number): number {
+    if (!limit || limit.resetAt <= now) return 0;
+
+    const reserve = limit.limit ? limit.limit * this.headroom : 0;
+    const shortfall = reserve + needed - limit.remaining;
+    if (shortfall <= 0) return 0;
+
+    // Without the limit we can't tell the refill rate: wait for the full reset
+    const consumed = (limit.limit ?? 0) - limit.remaining;
+    if (!limit.limit || consumed <= 0) return limit.resetAt - now;
+    return Math.min(limit.resetAt - now, ((limit.resetAt - now) * shortfall) / consumed);
+  }
+
+  private key(provider: string, model: string): string {
+    return `${provider}:${model}`;
+  }
+}
+
+/** Request fields holding the prompt, across providers */
+const PROMPT_FIELDS = ["messages", "input", "system", "instructions", "contents", "prompt"];
+
+/** Fields holding images, audio or files, which aren't counted as text */
+const BINARY_FIELDS = new Set(["data", "image_url", "input_audio", "file_data", "inlineData", "inline_data", "source"]);
+
+function textLength(value: unknown): number {
+  if (typeof value === "string") return value.length;
+  if (Array.isArray(value)) return value.reduce((sum: number, item) => sum + textLength(item), 0);
+  if (value && typeof value === "object") {
+    let length = 0;
+    for (const [key, item] of Object.entries(value)) {
+      if (!BINARY_FIELDS.has(key)) length += textLength(item);
+    }
+    return length;
+  }
+  return 0;
+}
+
+/**
+ * Rough token count of a request for throttling: ~4 characters per prompt
+ * token plus the output limit. Reserves tokens_per_minute capacity on
+ * admission; the actual usage corrects it when the metric arrives.
+ */
+export function estimateRequestTokens(params: Record<string, unknown>): number {
+  const promptChars = PROMPT_FIELDS.reduce((sum, field) => sum + textLength(params[field]), 0);
+  const generationConfig = params.generationConfig as Record<string, unknown> | undefined;
+  const maxOutput =
+    params.max_tokens ?? params.max_completion_tokens ?? params.max_output_tokens ?? generationConfig?.maxOutputTokens;
+  return Math.ceil(promptChars / 4) + (typeof maxOutput === "number" ? maxOutput : 0);
+}
@@ -11,6 +11,7 @@ import {
   simulateCascadedAgents,
 } from "./pattern-simulator.js";
 import { generateHTMLReport } from "./html-report.js";
+import { resolvePricingRegistry, type PricingOverrides, type PricingRegistry } from "./pricing.js";
 
 /**
  * Internal unified event type for report building
@@ -22,8 +23,14 @@ interface UnifiedEvent {
   input_tokens: number;
   output_tokens: number;
   cached_tokens: number;
+  cache_write_tokens?: number;
+  cache_write_1h_tokens?: number;
+  cache_storage_hours?: number;
   reasoning_tokens: number;
   cost: number;
+  service_tier?: string;
+  batch?: boolean;
+  time_to_first_token_ms?: number;
   error?: string;
   timestamp?: string;
 }
@@ -38,8 +45,14 @@ function fromMetricEvent(event: MetricEvent): UnifiedEvent {
     input_tokens: event.input_tokens,
     output_tokens: event.output_tokens,
     cached_tokens: event.cached_tokens,
+    cache_write_tokens: event.cache_write_tokens,
+    cache_write_1h_tokens: event.cache_write_1h_tokens,
+    cache_storage_hours: event.cache_storage_hours,
     reasoning_tokens: event.reasoning_tokens,
     cost: 0, // Will be calculated
+    service_tier: event.service_tier,
+    batch: event.batch,
+    time_to_first_token_ms: event.time_to_first_token_ms,
     error: event.error,
     timestamp: event.timestamp,
   };
@@ -62,16 +75,6 @@ function fromPatternEvent(event: PatternEvent): UnifiedEvent {
   };
 }
 
-// Model pricing per 1M tokens
-const MODEL_PRICING: Record<string, { input: number; output: number; cached: number }> = {
-  "gpt-5": { input: 2.0, output: 8.0, cached: 0.5 },
-  "gpt-5-mini": { input: 0.4, output: 1.6, cached: 0.1 },
-  "gpt-4.1": { input: 2.0, output: 8.0, cached: 0.5 },
-  "gpt-4.1-mini": { input: 0.4, output: 1.6, cached: 0.1 },
-  "o3": { input: 10.0, output: 40.0, cached: 2.5 },
-  "o3-mini": { input: 1.1, output: 4.4, cached: 0.275 },
-};
-
 export interface ReportBuilderOptions {
   /**
    * Include simulated conversation patterns
@@ -92,9 +95,9 @@ export interface ReportBuilderOptions {
   simulateCascadedAgents?: number;
 
   /**
-   * Custom model pricing
+   * Custom model pricing (registry or per-model overrides)
    */
-  pricing?: Record<string, { input: number; output: number; cached: number }>;
+  pricing?: PricingRegistry | PricingOverrides;
 }
 
 /**
@@ -106,10 +109,10 @@ export class ReportBuilder {
   private multiTenant: MultiTenantPattern | null = null;
   private cascadedAgents: CascadedAgentPattern[] = [];
   private startTime: Date = new Date();
-  private pricing: Record<string, { input: number; output: number; cached: number }>;
+  private pricing: PricingRegistry;
 
-  constructor(options?: { pricing?: Record<string, { input: number; output: number; cached: number }> }) {
-    this.pricing = { ...MODEL_PRICING, ...options?.pricing };
+  constructor(options?: { pricing?: PricingRegistry | PricingOverrides }) {
+    this.pricing = resolvePricingRegistry(options?.pricing);
   }
 
   /**
@@ -191,14 +194,10 @@ export class ReportBuilder {
    * Calculate cost for MetricEvent
    */
   private calculateEventCost(event: MetricEvent): number {
-    if (event.input_tokens === 0 && event.output_tokens === 0) return 0;
-    const pricing = this.pricing[event.model] ?? this.pricing["gpt-5-mini"] ?? { input: 1, output: 3, cached: 0.25 };
-    const uncachedInput = event.input_tokens - event.cached_tokens;
-    return (
-      (uncachedInput / 1_000_000) * pricing.input +
-      (event.cached_tokens / 1_000_000) * pricing.cached +
-      (event.output_tokens / 1_000_000) * pricing.output
-    );
+    return this.pricing.calculateCost(event.model, event, {
+      serviceTier: event.service_tier,
+      batch: event.batch,
+    }).total_cost;
   }
 
   /**
@@ -208,13 +207,10 @@ export class ReportBuilder {
     // If cost is already set (from simulated data), use it
     if (event.cost > 0) return event.cost;
 
-    const pricing = this.pricing[event.model] ?? this.pricing["gpt-5-mini"] ?? { input: 1, output: 3, cached: 0.25 };
-    const uncachedInput = event.input_tokens - event.cached_tokens;
-    return (
-      (uncachedInput / 1_000_000) * pricing.input +
-      (event.cached_tokens / 1_000_000) * pricing.cached +
-      (event.output_tokens / 1_000_000) * pricing.output
-    );
+    return this.pricing.calculateCost(event.model, event, {
+      serviceTier: event.service_tier,
+      batch: event.batch,
+    }).total_cost;
   }
 
   /**
@@ -278,12 +274,12 @@ export class ReportBuilder {
       const tokens = event.input_tokens + event.output_tokens;
       totalTokens += tokens;
 
-      // Cache savings
-      if (event.cached_tokens > 0) {
-        const pricing = this.pricing[event.model] ?? this.pricing["gpt-5-mini"];
-        if (pricing) {
-          cacheSavings += (event.cached_tokens / 1_000_000) * (pricing.input - pricing.cached);
-        }
+      // Cache savings (net of write premiums)
+      if (event.cached_tokens > 0 || event.cache_write_tokens) {
+        cacheSavings += this.pricing.calculateCost(event.model, event, {
+          serviceTier: event.service_tier,
+          batch: event.batch,
+        }).cache_savings;
       }
 
       // By model
@@ -316,6 +312,15 @@ export class ReportBuilder {
       ? latencies.reduce((a, b) => a + b, 0) / latencies.length
       : 0;
 
+    // Time to first token (streamed requests only)
+    const ttfts = successful
+      .filter((e) => e.time_to_first_token_ms !== undefined)
+      .map((e) => e.time_to_first_token_ms!)
+      .sort((a, b) => a - b);
+    const avgTtft = ttfts.length > 0
+      ? ttfts.reduce((a, b) => a + b, 0) / ttfts.length
+      : 0;
+
     // Cost by pattern type
     const costByPattern: Record<string, number> = {
       conversations: this.conversations.reduce((sum, c) => sum + c.summary.total_cost, 0),
@@ -361,6 +366,10 @@ export class ReportBuilder {
         p50_latency_ms: percentile(latencies, 50),
         p95_latency_ms: percentile(latencies, 95),
         p99_latency_ms: percentile(latencies, 99),
+        avg_ttft_ms: avgTtft,
+        p50_ttft_ms: percentile(ttfts, 50),
+        p95_ttft_ms: percentile(ttfts, 95),
+        p99_ttft_ms: percentile(ttfts, 99),
       },
       costs: {
         by_model: costByModel,
@@ -175,12 +175,17 @@ export interface AnalyticsJSON {
     total_tokens: number;
     total_cost: number;
     projected_monthly_cost: number;
-    cache_savings: number;
+    cache_savings: number; // net of cache write premiums and storage
     success_rate: number;
     avg_latency_ms: number;
     p50_latency_ms: number;
     p95_latency_ms: number;
     p99_latency_ms: number;
+    /** Time to first token across streamed requests (0 when none) */
+    avg_ttft_ms: number;
+    p50_ttft_ms: number;
+    p95_ttft_ms: number;
+    p99_ttft_ms: number;
   };
 
   // Cost breakdown
@@ -0,0 +1,366 @@
+/**
+ * Response cache - serve repeated identical requests without calling the provider
+ *
+ * Instrumented create methods look up each cacheable request before it is
+ * sent. The key is a hash of the normalized request params (model, messages,
+ * tools, sampling settings, ...). A hit returns a copy of the stored response
+ * and emits a metric event with cache_hit set and the cost the call avoided.
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readdir, readFile, rename, stat, unlink, utimes, writeFile } from "fs/promises";
+import { join } from "path";
+import { logger } from "./logging.js";
+import { resolvePricingRegistry, type PricedUsage, type PricingOverrides, type PricingRegistry } from "./pricing.js";
+import type { MetricEvent } from "./types.js";
+
+/**
+ * A stored response
+ */
+export interface CachedResponse {
+  /** The SDK response as returned to the caller */
+  response: unknown;
+  /** Token usage of the original call (prices the cost a hit avoids) */
+  usage: PricedUsage | null;
+  /** When the response was stored (epoch ms) */
+  createdAt: number;
+  /** When the entry expires (epoch ms) */
+  expiresAt: number;
+}
+
+/**
+ * Storage for cached responses, keyed by request hash.
+ *
+ * Expiry is checked by ResponseCache; stores only evict to stay within
+ * their size limit. Stores must not throw; log and report a miss instead.
+ */
+export interface ResponseCacheStore {
+  get(key: string): Promise<CachedResponse | undefined>;
+  set(key: string, entry: CachedResponse): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// =============================================================================
+// Stores
+// =============================================================================
+
+/**
+ * Options for the in-memory store
+ */
+export interface MemoryResponseCacheStoreOptions {
+  /** Most entries kept; the least recently used are evicted. Default: 1000 */
+  maxEntries?: number;
+}
+
+/**
+ * In-memory LRU store. Entries are lost when the process exits.
+ */
+export class MemoryResponseCacheStore implements ResponseCacheStore {
+  private readonly maxEntries: number;
+  // Map iteration order is insertion order: re-inserting on read keeps the
+  // least recently used entry first
+  private entries: Map<string, CachedResponse> = new Map();
+
+  constructor(options: MemoryResponseCacheStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CachedResponse): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Options for the file-backed store
+ */
+export interface FileResponseCacheStoreOptions {
+  /** Directory holding one JSON file per entry */
+  directory: string;
+  /**
+   * Most entries kept on disk; the least recently used are evicted when
+   * a write goes over the limit. Default: 10000
+   */
+  maxEntries?: number;
+}
+
+/**
+ * Store keeping one JSON file per entry in a directory, so cached responses
+ * survive restarts and can be shared between processes (e.g. CI jobs that
+ * restore the directory from a build cache).
+ *
+ * A file's mtime is bumped on every hit and serves as its last use for eviction.
+ */
+export class FileResponseCacheStore implements ResponseCacheStore {
+  private readonly directory: string;
+  private readonly maxEntries: number;
+  private ready: Promise<void> | null = null;
+  private writesSinceEvict = 0;
+
+  constructor(options: FileResponseCacheStoreOptions) {
+    this.directory = options.directory;
+    this.maxEntries = options.maxEntries ?? 10000;
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const path = this.pathFor(key);
+    try {
+      const entry = JSON.parse(await readFile(path, "utf8")) as CachedResponse;
+      const now = new Date();
+      await utimes(path, now, now).catch(() => {});
+      return entry;
+    } catch (error) {
+      if ((error as { code?: string }).code !== "ENOENT") {
+        logger.warn(`Ignoring unreadable response cache entry ${path}:`, error);
+      }
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CachedResponse): Promise<void> {
+    const path = this.pathFor(key);
+    try {
+      await this.ensureDirectory();
+      // Write-then-rename so readers never see a partial entry
+      const tmpPath = `${path}.${process.pid}.tmp`;
+      await writeFile(tmpPath, JSON.stringify(entry));
+      await rename(tmpPath, path);
+
+      // Listing the directory is costly: check the size limit every 100 writes
+      if (++this.writesSinceEvict >= Math.min(100, this.maxEntries)) {
+        this.writesSinceEvict = 0;
+        await this.evict();
+      }
+    } catch (error) {
+      logger.warn(`Failed to write response cache entry ${path}:`, error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await unlink(this.pathFor(key)).catch(() => {});
+  }
+
+  async clear(): Promise<void> {
+    for (const file of await this.listEntries()) {
+      await unlink(join(this.directory, file)).catch(() => {});
+    }
+  }
+
+  private pathFor(key: string): string {
+    return join(this.directory, `${key}.json`);
+  }
+
+  private ensureDirectory(): Promise<void> {
+    this.ready ??= mkdir(this.directory, { recursive: true }).then(() => undefined);
+    return this.ready;
+  }
+
+  private async listEntries(): Promise<string[]> {
+    try {
+      return (await readdir(this.directory)).filter((file) => file.endsWith(".json"));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Remove the least recently used entries over the size limit
+   */
+  private async evict(): Promise<void> {
+    const files = await this.listEntries();
+    if (files.length <= this.maxEntries) return;
+
+    const used = await Promise.all(
+      files.map(async (file) => {
+        const info = await stat(join(this.directory, file)).catch(() => null);
+        return { file, usedAt: info?.mtimeMs ?? 0 };
+      })
+    );
+    used.sort((a, b) => a.usedAt - b.usedAt);
+    for (const { file } of used.slice(0, files.length - this.maxEntries)) {
+      await unlink(join(this.directory, file)).catch(() => {});
+    }
+  }
+}
+
+// =============================================================================
+// Cache
+// =============================================================================
+
+/**
+ * Options for the response cache
+ */
+export interface ResponseCacheOptions {
+  /** Where responses are stored. Default: in-memory LRU with 1000 entries */
+  store?: ResponseCacheStore;
+  /** How long a response is served from the cache (ms). Default: 86400000 (24h) */
+  ttlMs?: number;
+  /**
+   * Only cache requests with temperature 0, whose answers are meant to be
+   * reproducible. Set to false to cache every request. Default: true
+   */
+  requireZeroTemperature?: boolean;
+}
+
+/**
+ * Request params that don't change the response
+ */
+const IGNORED_PARAMS = new Set(["stream", "stream_options", "user", "metadata", "store"]);
+
+/**
+ * JSON with object keys sorted, so key order doesn't change the hash
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item ?? null)).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Exact-match response cache for OpenAI and Anthropic calls.
+ *
+ * @example
+ * ```typescript
+ * await instrument({
+ *   emitMetric: createConsoleEmitter(),
+ *   sdks: { OpenAI },
+ *   responseCache: createResponseCache({
+ *     store: createFileResponseCacheStore({ directory: "./.aden/cache" }),
+ *   }),
+ * });
+ * ```
+ */
+export class ResponseCache {
+  private readonly store: ResponseCacheStore;
+  private readonly ttlMs: number;
+  private readonly requireZeroTemperature: boolean;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.store = options.store ?? new MemoryResponseCacheStore();
+    this.ttlMs = options.ttlMs ?? 86400000;
+    this.requireZeroTemperature = options.requireZeroTemperature ?? true;
+  }
+
+  /**
+   * Cache key of a request, or null if the request is not cacheable
+   * (streaming, or sampled with a non-zero temperature)
+   *
+   * @param api - Which API the params are for (e.g. "openai:chat"), so
+   *   identical params sent to different endpoints don't share entries
+   */
+  keyFor(api: string, params: Record<string, unknown>): string | null {
+    if (params.stream) return null;
+    if (this.requireZeroTemperature && params.temperature !== 0) return null;
+
+    const normalized: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(params)) {
+      if (!IGNORED_PARAMS.has(name)) normalized[name] = value;
+    }
+    return createHash("sha256").update(`${api}\n${stableStringify(normalized)}`).digest("hex");
+  }
+
+  /**
+   * Look up a response; expired entries are removed and reported as misses
+   */
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const entry = await this.store.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      await this.store.delete(key);
+      return undefined;
+    }
+    // Copy, so callers mutating the response don't change the stored one
+    return { ...entry, response: JSON.parse(JSON.stringify(entry.response)) };
+  }
+
+  /**
+   * Store a response
+   */
+  async set(key: string, response: unknown, usage: PricedUsage | null): Promise<void> {
+    const now = Date.now();
+    try {
+      await this.store.set(key, {
+        response: JSON.parse(JSON.stringify(response)),
+        usage,
+        createdAt: now,
+        expiresAt: now + this.ttlMs,
+      });
+    } catch (error) {
+      logger.warn("Failed to cache response:", error);
+    }
+  }
+
+  /**
+   * Remove all stored responses
+   */
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+}
+
+/**
+ * Mark a metric event as served from the cache. The event reports no token
+ * usage; cost_avoided is what the original call's usage costs today.
+ */
+export function applyCacheHit(
+  event: MetricEvent,
+  entry: CachedResponse,
+  pricing?: PricingRegistry | PricingOverrides
+): MetricEvent {
+  event.cache_hit = true;
+  event.cost_avoided = entry.usage
+    ? resolvePricingRegistry(pricing).calculateCost(event.model, entry.usage).total_cost
+    : 0;
+  return event;
+}
+
+/**
+ * Create a response cache
+ */
+export function createResponseCache(options: ResponseCacheOptions = {}): ResponseCache {
+  return new ResponseCache(options);
+}
+
+/**
+ * Create an in-memory LRU response cache store
+ */
+export function createMemoryResponseCacheStore(
+  options: MemoryResponseCacheStoreOptions = {}
+): MemoryResponseCacheStore {
+  return new MemoryResponseCacheStore(options);
+}
+
+/**
+ * Create a response cache store backed by a directory of JSON files
+ */
+export function createFileResponseCacheStore(options: FileResponseCacheStoreOptions): FileResponseCacheStore {
+  return new FileResponseCacheStore(options);
+}
@@ -0,0 +1,126 @@
+/**
+ * Retry tracking - record the HTTP attempts behind one SDK call
+ *
+ * The OpenAI and Anthropic SDKs retry 408/409/429/5xx responses and
+ * connection errors internally, so a metered call sees only the final
+ * outcome. The client's fetchWithTimeout runs once per attempt; patching it
+ * and running each metered call in its own async context attaches every
+ * attempt to the span of the logical call.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import type { MetricEvent } from "./types.js";
+
+/**
+ * Why an attempt failed (and was retried, unless it was the last one)
+ */
+export type RetryReason =
+  | "rate_limit" // 429
+  | "overloaded" // 529
+  | "server_error" // other 5xx
+  | "timeout" // 408 or client-side timeout
+  | "conflict" // 409 (lock timeout)
+  | "connection"; // network error
+
+/**
+ * One HTTP attempt of a metered call
+ */
+export interface RequestAttempt {
+  /** When the attempt was sent (epoch ms) */
+  startedAt: number;
+  /** When the response or error arrived (epoch ms) */
+  endedAt: number;
+  /** HTTP status (undefined on network errors and timeouts) */
+  status?: number;
+  /** Failure reason (undefined if the attempt succeeded) */
+  reason?: RetryReason;
+}
+
+const attemptStorage = new AsyncLocalStorage<RequestAttempt[]>();
+
+/**
+ * Run an SDK call and record its HTTP attempts into `attempts`.
+ * Retries happen in continuations of the call, so they land in the same list.
+ */
+export function runWithAttemptTracking<T>(attempts: RequestAttempt[], fn: () => T): T {
+  return attemptStorage.run(attempts, fn);
+}
+
+/**
+ * Classify a response status; undefined for successes and errors that are
+ * not retried (e.g. 400, 401)
+ */
+function classifyStatus(status: number): RetryReason | undefined {
+  if (status === 429) return "rate_limit";
+  if (status === 529) return "overloaded";
+  if (status === 408) return "timeout";
+  if (status === 409) return "conflict";
+  if (status >= 500) return "server_error";
+  return undefined;
+}
+
+/**
+ * Patch the fetchWithTimeout method of an SDK client class (found on the
+ * class or one of its base classes) to record attempts.
+ *
+ * @returns a function that removes the patch, or null if the client has no
+ *   fetchWithTimeout method
+ */
+export function patchRetryTracking(clientClass: unknown): (() => void) | null {
+  let proto = (clientClass as { prototype?: Record<string, unknown> } | null)?.prototype;
+  while (proto && !Object.prototype.hasOwnProperty.call(proto, "fetchWithTimeout")) {
+    proto = Object.getPrototypeOf(proto) as Record<string, unknown> | undefined;
+  }
+  if (!proto || typeof proto.fetchWithTimeout !== "function") {
+    return null;
+  }
+
+  const target = proto;
+  const original = target.fetchWithTimeout as (...args: unknown[]) => Promise<{ status: number }>;
+
+  target.fetchWithTimeout = async function (this: unknown, ...args: unknown[]) {
+    const attempts = attemptStorage.getStore();
+    if (!attempts) {
+      return original.apply(this, args);
+    }
+
+    const attempt: RequestAttempt = { startedAt: Date.now(), endedAt: 0 };
+    attempts.push(attempt);
+    try {
+      const response = await original.apply(this, args);
+      attempt.endedAt = Date.now();
+      attempt.status = response.status;
+      attempt.reason = classifyStatus(response.status);
+      return response;
+    } catch (error) {
+      attempt.endedAt = Date.now();
+      // The SDK aborts the request when its timeout fires
+      attempt.reason = (error as { name?: string } | null)?.name === "AbortError" ? "timeout" : "connection";
+      throw error;
+    }
+  };
+
+  return () => {
+    target.fetchWithTimeout = original;
+  };
+}
+
+/**
+ * Copy attempt count, retry reasons and backoff time onto a metric event
+ */
+export function applyRetryInfo(event: MetricEvent, attempts: RequestAttempt[]): MetricEvent {
+  if (attempts.length === 0) return event;
+
+  event.attempt_count = attempts.length;
+  if (attempts.length > 1) {
+    const retried = attempts.slice(0, -1);
+    event.retry_reasons = retried.map((a) => a.reason ?? `http_${a.status ?? "unknown"}`).join(", ");
+
+    let backoffMs = 0;
+    for (let i = 1; i < attempts.length; i++) {
+      backoffMs += Math.max(0, attempts[i].startedAt - attempts[i - 1].endedAt);
+    }
+    event.retry_backoff_ms = backoffMs;
+  }
+  return event;
+}
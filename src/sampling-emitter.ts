@@ -0,0 +1,264 @@
+/**
+ * Sampling emitter - cut event volume for high-traffic workloads
+ *
+ * Whole traces are kept or dropped together (head-based sampling on
+ * trace_id), errors and expensive calls are always kept, and every event,
+ * sampled or not, can be rolled into per-minute aggregates with exact token
+ * and cost sums for billing.
+ */
+
+import { logger } from "./logging.js";
+import { registerShutdownHandler } from "./shutdown.js";
+import type { MetricEmitter, MetricEvent } from "./types.js";
+
+/**
+ * Token, cost and latency totals of the events in one time window with the
+ * same provider, model, agent and context
+ */
+export interface MetricAggregate {
+  /** Window start (ISO 8601) */
+  window_start: string;
+  /** Window end, exclusive (ISO 8601) */
+  window_end: string;
+  provider: MetricEvent["provider"];
+  model: string;
+  /** metadata.agent or the innermost named agent ("" if none) */
+  agent: string;
+  /** Context id ("" if none) */
+  context_id: string;
+  /** Events rolled in */
+  requests: number;
+  /** Events with an error */
+  errors: number;
+  /** Events served from the response cache */
+  cache_hits: number;
+  input_tokens: number;
+  output_tokens: number;
+  cached_tokens: number;
+  reasoning_tokens: number;
+  total_tokens: number;
+  /** Sum of total_cost (USD) */
+  total_cost: number;
+  latency_ms_sum: number;
+  latency_ms_max: number;
+}
+
+/**
+ * Options for the sampling emitter
+ */
+export interface SamplingEmitterOptions {
+  /**
+   * Fraction of traces whose events are forwarded (0 to 1). Every event of
+   * a trace gets the same decision, in every process. Default: 0.1
+   */
+  sampleRate?: number;
+  /** Events forwarded regardless of sampling */
+  alwaysKeep?: {
+    /** Events with an error. Default: true */
+    errors?: boolean;
+    /** Events costing at least this much (USD) */
+    minCost?: number;
+    /** Events using at least this many tokens */
+    minTotalTokens?: number;
+    /** Custom rule */
+    when?: (event: MetricEvent) => boolean;
+  };
+  /**
+   * Roll every event (kept or not) into aggregates, passed to `emit` when
+   * their window closes, on flush() and on shutdown()
+   */
+  aggregate?: {
+    /** Receives closed windows */
+    emit: (aggregates: MetricAggregate[]) => void | Promise<void>;
+    /** Window length (ms). Default: 60000 */
+    windowMs?: number;
+    /**
+     * Most open aggregates; beyond this all are emitted early (partial
+     * windows keep the sums exact). Default: 10000
+     */
+    maxAggregates?: number;
+    /**
+     * Context id of the current request.
+     * Default: metadata.context_id of the event
+     */
+    getContextId?: () => string | undefined;
+  };
+}
+
+/**
+ * Hash of a string as a fraction in [0, 1): FNV-1a, then the murmur3
+ * finalizer so ids differing only in their last characters spread evenly
+ */
+function hashFraction(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Create an emitter that forwards a sample of events to another emitter
+ * and optionally aggregates all of them.
+ *
+ * Forwarded events carry `sample_rate` (unset for always-kept events).
+ *
+ * @example
+ * ```typescript
+ * const transport = createHttpTransport({ apiUrl: "https://api.example.com/v1/metrics" });
+ *
+ * await instrument({
+ *   emitMetric: createSamplingEmitter(transport.emit, {
+ *     sampleRate: 0.01,
+ *     alwaysKeep: { errors: true, minCost: 0.5 },
+ *     aggregate: { emit: (aggregates) => billing.record(aggregates) },
+ *   }),
+ *   sdks: { OpenAI },
+ * });
+ * ```
+ */
+export function createSamplingEmitter(
+  emitter: MetricEmitter,
+  options: SamplingEmitterOptions = {}
+): MetricEmitter & {
+  /** Emit all open aggregates, closed or not */
+  flush: () => Promise<void>;
+  /** Stop the window timer and emit all open aggregates */
+  stop: () => Promise<void>;
+} {
+  const sampleRate = Math.min(1, Math.max(0, options.sampleRate ?? 0.1));
+  const { errors: keepErrors = true, minCost, minTotalTokens, when } = options.alwaysKeep ?? {};
+  const aggregate = options.aggregate;
+  const windowMs = aggregate?.windowMs ?? 60000;
+  const maxAggregates = aggregate?.maxAggregates ?? 10000;
+
+  const alwaysKept = (event: MetricEvent): boolean =>
+    (keepErrors && !!event.error) ||
+    (minCost !== undefined && (event.total_cost ?? 0) >= minCost) ||
+    (minTotalTokens !== undefined && event.total_tokens >= minTotalTokens) ||
+    (when?.(event) ?? false);
+
+  // Window start + labels -> aggregate
+  let open = new Map<string, MetricAggregate>();
+
+  const add = (event: MetricEvent) => {
+    const time = Date.parse(event.timestamp) || Date.now();
+    const start = Math.floor(time / windowMs) * windowMs;
+    const agent = event.metadata?.agent ?? event.agent_stack?.[event.agent_stack.length - 1] ?? "";
+    const contextId = aggregate?.getContextId?.() ?? event.metadata?.context_id ?? "";
+
+    const key = JSON.stringify([start, event.provider, event.model, agent, contextId]);
+    let entry = open.get(key);
+    if (!entry) {
+      entry = {
+        window_start: new Date(start).toISOString(),
+        window_end: new Date(start + windowMs).toISOString(),
+        provider: event.provider,
+        model: event.model,
+        agent,
+        context_id: contextId,
+        requests: 0,
+        errors: 0,
+        cache_hits: 0,
+        input_tokens: 0,
+        output_tokens: 0,
+        cached_tokens: 0,
+        reasoning_tokens: 0,
+        total_tokens: 0,
+        total_cost: 0,
+        latency_ms_sum: 0,
+        latency_ms_max: 0,
+      };
+      open.set(key, entry);
+    }
+
+    entry.requests++;
+    if (event.error) entry.errors++;
+    if (event.cache_hit) entry.cache_hits++;
+    entry.input_tokens += event.input_tokens;
+    entry.output_tokens += event.output_tokens;
+    entry.cached_tokens += event.cached_tokens;
+    entry.reasoning_tokens += event.reasoning_tokens;
+    entry.total_tokens += event.total_tokens;
+    entry.total_cost += event.total_cost ?? 0;
+    entry.latency_ms_sum += event.latency_ms;
+    entry.latency_ms_max = Math.max(entry.latency_ms_max, event.latency_ms);
+  };
+
+  // Emit aggregates whose window ended (all of them with closedOnly false)
+  const emitAggregates = async (closedOnly: boolean) => {
+    if (!aggregate || open.size === 0) return;
+
+    let done: MetricAggregate[];
+    if (closedOnly) {
+      const now = new Date().toISOString();
+      done = [];
+      for (const [key, entry] of open) {
+        if (entry.window_end <= now) {
+          done.push(entry);
+          open.delete(key);
+        }
+      }
+    } else {
+      done = [...open.values()];
+      open = new Map();
+    }
+
+    if (done.length === 0) return;
+    try {
+      await aggregate.emit(done);
+    } catch (error) {
+      logger.warn(`Failed to emit ${done.length} metric aggregate(s):`, error);
+    }
+  };
+
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let unregisterShutdown: () => void = () => {};
+  if (aggregate) {
+    timer = setInterval(() => {
+      void emitAggregates(true);
+    }, Math.min(windowMs, 60000));
+    // Don't prevent process exit
+    if (timer.unref) {
+      timer.unref();
+    }
+    unregisterShutdown = registerShutdownHandler("sampling emitter", () => emitAggregates(false), "emitter", {
+      // Aggregates usually go to a batch emitter, which must flush after them
+      feedsEmitters: true,
+    });
+  }
+
+  const sampler = async (event: MetricEvent) => {
+    if (aggregate) {
+      add(event);
+      if (open.size > maxAggregates) {
+        await emitAggregates(false);
+      }
+    }
+
+    if (alwaysKept(event)) {
+      return emitter(event);
+    }
+    if (sampleRate > 0 && hashFraction(event.trace_id) < sampleRate) {
+      return emitter(sampleRate < 1 ? { ...event, sample_rate: sampleRate } : event);
+    }
+  };
+
+  sampler.flush = () => emitAggregates(false);
+  sampler.stop = async () => {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+    unregisterShutdown();
+    await emitAggregates(false);
+  };
+
+  return sampler;
+}
@@ -0,0 +1,213 @@
+/**
+ * Shutdown coordination - flush every buffering emitter before the process exits
+ *
+ * Batch emitters, JSON file emitters, HTTP transports, OTLP exporters and
+ * control agents register themselves here when they are created. shutdown()
+ * flushes them in dependency order: emitters first (they may feed a
+ * transport), then transports, then control agents. Within the emitter stage,
+ * emitters that feed other emitters (sampling aggregates) flush first.
+ */
+
+import { logger } from "./logging.js";
+
+/**
+ * When a handler runs during shutdown. Stages run in this order; handlers
+ * of one stage run concurrently.
+ */
+export type ShutdownStage = "emitter" | "transport" | "agent";
+
+/**
+ * Options for registerShutdownHandler()
+ */
+export interface ShutdownHandlerOptions {
+  /**
+   * The handler emits into other emitters, so it must finish before they
+   * flush. Such handlers run one at a time, latest registered first (wrappers
+   * are created after what they wrap), before the other handlers of the stage.
+   */
+  feedsEmitters?: boolean;
+}
+
+/**
+ * Options for shutdown()
+ */
+export interface ShutdownOptions {
+  /** Most time to spend flushing, across all stages (ms). Default: 5000 */
+  timeoutMs?: number;
+}
+
+/**
+ * Outcome of shutdown(), by handler name
+ */
+export interface ShutdownResult {
+  /** Handlers that finished */
+  completed: string[];
+  /** Handlers that threw */
+  failed: string[];
+  /** Handlers still running, or not started, when the timeout passed */
+  timedOut: string[];
+}
+
+/**
+ * Options for installShutdownHooks()
+ */
+export interface ShutdownHookOptions {
+  /** Signals that trigger a shutdown. Default: ["SIGTERM", "SIGINT"] */
+  signals?: NodeJS.Signals[];
+  /** Also shut down when the event loop empties (scripts, serverless handlers). Default: true */
+  beforeExit?: boolean;
+  /** Passed to shutdown(). Default: 5000 */
+  timeoutMs?: number;
+}
+
+interface ShutdownHandler {
+  name: string;
+  stage: ShutdownStage;
+  run: () => void | Promise<void>;
+  feedsEmitters: boolean;
+}
+
+const STAGES: ShutdownStage[] = ["emitter", "transport", "agent"];
+
+const handlers = new Set<ShutdownHandler>();
+let inProgress: Promise<ShutdownResult> | null = null;
+
+/**
+ * Register work to run on shutdown() (e.g. flushing a buffer)
+ *
+ * @returns a function that unregisters the handler, for components that
+ *   are stopped before shutdown
+ */
+export function registerShutdownHandler(
+  name: string,
+  run: () => void | Promise<void>,
+  stage: ShutdownStage = "emitter",
+  options: ShutdownHandlerOptions = {}
+): () => void {
+  const handler: ShutdownHandler = { name, stage, run, feedsEmitters: options.feedsEmitters ?? false };
+  handlers.add(handler);
+  return () => {
+    handlers.delete(handler);
+  };
+}
+
+/**
+ * Flush and stop every registered emitter, transport and control agent.
+ *
+ * Each handler runs once; components created afterwards register again.
+ * Concurrent calls share one shutdown.
+ *
+ * @example
+ * ```typescript
+ * // End of a script or serverless handler
+ * await shutdown({ timeoutMs: 2000 });
+ * ```
+ */
+export function shutdown(options: ShutdownOptions = {}): Promise<ShutdownResult> {
+  inProgress ??= runShutdown(options.timeoutMs ?? 5000).finally(() => {
+    inProgress = null;
+  });
+  return inProgress;
+}
+
+async function runShutdown(timeoutMs: number): Promise<ShutdownResult> {
+  const result: ShutdownResult = { completed: [], failed: [], timedOut: [] };
+  const deadline = Date.now() + timeoutMs;
+
+  for (const stage of STAGES) {
+    // Handlers registered while an earlier stage ran are included
+    const pending = [...handlers].filter((handler) => handler.stage === stage);
+    for (const handler of pending) handlers.delete(handler);
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      result.timedOut.push(...pending.map((handler) => handler.name));
+      continue;
+    }
+
+    const running = new Set(pending);
+    let expired = false;
+    const runHandler = async (handler: ShutdownHandler) => {
+      // Past the timeout, handlers not started yet stay in running (timed out)
+      if (expired) return;
+      try {
+        await handler.run();
+        result.completed.push(handler.name);
+      } catch (error) {
+        logger.warn(`Shutdown of ${handler.name} failed:`, error);
+        result.failed.push(handler.name);
+      } finally {
+        running.delete(handler);
+      }
+    };
+
+    const feeders = pending.filter((handler) => handler.feedsEmitters).reverse();
+    const others = pending.filter((handler) => !handler.feedsEmitters);
+    const settled = (async () => {
+      for (const handler of feeders) await runHandler(handler);
+      await Promise.all(others.map(runHandler));
+    })();
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    await Promise.race([
+      settled,
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, remaining);
+      }),
+    ]);
+    clearTimeout(timer);
+
+    if (running.size > 0) {
+      expired = true;
+      result.timedOut.push(...[...running].map((handler) => handler.name));
+    }
+  }
+
+  if (result.timedOut.length > 0) {
+    logger.warn(`Shutdown timed out after ${timeoutMs}ms; not flushed: ${result.timedOut.join(", ")}`);
+  }
+  return result;
+}
+
+/**
+ * Run shutdown() when the process receives a termination signal or its
+ * event loop empties.
+ *
+ * After a signal, the signal is raised again once shutdown finishes, so
+ * the process exits as it would have, unless another listener handles it.
+ *
+ * @returns a function that removes the hooks
+ *
+ * @example
+ * ```typescript
+ * installShutdownHooks({ signals: ["SIGTERM"], timeoutMs: 3000 });
+ * ```
+ */
+export function installShutdownHooks(options: ShutdownHookOptions = {}): () => void {
+  const { signals = ["SIGTERM", "SIGINT"], beforeExit = true, timeoutMs = 5000 } = options;
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    remove();
+    shutdown({ timeoutMs }).finally(() => {
+      if (process.listenerCount(signal) === 0) {
+        process.kill(process.pid, signal);
+      }
+    });
+  };
+
+  const onBeforeExit = () => {
+    // Flushing schedules work, which fires beforeExit again once it is done
+    process.removeListener("beforeExit", onBeforeExit);
+    void shutdown({ timeoutMs });
+  };
+
+  const remove = () => {
+    for (const signal of signals) process.removeListener(signal, onSignal);
+    process.removeListener("beforeExit", onBeforeExit);
+  };
+
+  for (const signal of signals) process.on(signal, onSignal);
+  if (beforeExit) process.on("beforeExit", onBeforeExit);
+
+  return remove;
+}
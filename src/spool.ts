@@ -0,0 +1,286 @@
+/**
+ * Disk spool - write-ahead segment files for events waiting to be sent
+ *
+ * Events are appended to a segment file before they are sent. Delivered
+ * events are recorded in the segment's ack file, and once every event of a
+ * segment is acknowledged, both files are deleted. Whatever is left
+ * unacknowledged after a crash, deploy or endpoint outage is replayed by the
+ * next process that opens the spool directory.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync, statSync, unlinkSync } from "fs";
+import { join } from "path";
+import { logger } from "./logging.js";
+
+/**
+ * Options for a disk spool
+ */
+export interface SpoolOptions {
+  /** Directory for segment files (one directory per process) */
+  directory: string;
+  /** Start a new segment file after this many bytes. Default: 1048576 (1 MiB) */
+  maxSegmentBytes?: number;
+  /**
+   * Most bytes kept on disk. Beyond this the oldest segments are deleted
+   * and their unsent events are lost. Default: 104857600 (100 MiB)
+   */
+  maxBytes?: number;
+}
+
+/**
+ * Position of an event in the spool, passed back to ack()
+ */
+export interface SpoolRef {
+  segment: number;
+  /** Line of the event in the segment file (0-based) */
+  line: number;
+}
+
+/**
+ * An event replayed from the spool and its position
+ */
+export interface SpooledItem<T> {
+  item: T;
+  ref: SpoolRef;
+}
+
+interface Segment {
+  id: number;
+  path: string;
+  bytes: number;
+  /** Lines written to the segment file */
+  lines: number;
+  /** Events not acknowledged yet */
+  pending: number;
+}
+
+const SEGMENT_FILE = /^segment-(\d+)\.jsonl$/;
+const ACK_FILE = /^segment-(\d+)\.acks$/;
+
+/**
+ * Write-ahead spool of JSON events in append-only segment files.
+ *
+ * append() returns where an event was written; the owner passes it back to
+ * ack() once the event was delivered. Writes are synchronous, so an event is
+ * on disk before it is sent. Delivery is at least once: an event sent just
+ * before a crash, but not yet acknowledged, is sent again.
+ */
+export class DiskSpool<T> {
+  private readonly directory: string;
+  private readonly maxSegmentBytes: number;
+  private readonly maxBytes: number;
+  // Insertion order is segment order (oldest first)
+  private segments: Map<number, Segment> = new Map();
+  private active: Segment | null = null;
+  private nextId = 1;
+  private droppedCount = 0;
+  private recovered = false;
+
+  constructor(options: SpoolOptions) {
+    this.directory = options.directory;
+    this.maxSegmentBytes = options.maxSegmentBytes ?? 1048576;
+    this.maxBytes = options.maxBytes ?? 104857600;
+    mkdirSync(this.directory, { recursive: true });
+  }
+
+  /**
+   * Read the unacknowledged events left by an earlier process, oldest first.
+   * Call once, before append().
+   *
+   * @param limit - Most events to return. The rest stay on disk and are
+   *   replayed by the next process.
+   */
+  recover(limit: number = Infinity): SpooledItem<T>[] {
+    if (this.recovered) return [];
+    this.recovered = true;
+
+    const recovered: SpooledItem<T>[] = [];
+    const entries = readdirSync(this.directory);
+    const files = entries
+      .map((file) => ({ file, match: SEGMENT_FILE.exec(file) }))
+      .filter((entry) => entry.match)
+      .map(({ file, match }) => ({ file, id: Number(match![1]) }))
+      .sort((a, b) => a.id - b.id);
+
+    let unsent = 0;
+    for (const { file, id } of files) {
+      const path = join(this.directory, file);
+      const acked = this.readAcks(id);
+      let pending = 0;
+      try {
+        const lines = readFileSync(path, "utf8").split("\n");
+        lines.forEach((line, index) => {
+          if (!line.trim() || acked.has(index)) return;
+          let item: T;
+          try {
+            item = JSON.parse(line) as T;
+          } catch {
+            // A crash mid-append can leave a partial last line
+            logger.warn(`Skipping unreadable line in spool segment ${path}`);
+            return;
+          }
+          pending++;
+          if (recovered.length < limit) {
+            recovered.push({ item, ref: { segment: id, line: index } });
+          }
+        });
+
+        if (pending > 0) {
+          this.segments.set(id, { id, path, bytes: statSync(path).size, lines: lines.length, pending });
+          unsent += pending;
+        } else {
+          this.remove({ id, path, bytes: 0, lines: 0, pending: 0 });
+        }
+      } catch (error) {
+        logger.warn(`Failed to read spool segment ${path}:`, error);
+      }
+      this.nextId = Math.max(this.nextId, id + 1);
+    }
+
+    // Ack files whose segment was deleted before them
+    for (const file of entries) {
+      const match = ACK_FILE.exec(file);
+      if (match && !this.segments.has(Number(match[1]))) {
+        this.unlink(join(this.directory, file));
+      }
+    }
+
+    if (unsent > 0) {
+      logger.info(`Replaying ${recovered.length} of ${unsent} unsent event(s) from ${this.directory}`);
+    }
+    return recovered;
+  }
+
+  /**
+   * Write an event to the current segment
+   *
+   * @returns the position to acknowledge, or undefined if the write failed
+   *   (the event is then only kept in memory)
+   */
+  append(item: T): SpoolRef | undefined {
+    const line = JSON.stringify(item) + "\n";
+    try {
+      if (!this.active || this.active.bytes >= this.maxSegmentBytes) {
+        const id = this.nextId++;
+        const path = join(this.directory, `segment-${id}.jsonl`);
+        this.active = { id, path, bytes: 0, lines: 0, pending: 0 };
+        this.segments.set(id, this.active);
+      }
+
+      appendFileSync(this.active.path, line);
+      this.active.bytes += Buffer.byteLength(line);
+      this.active.pending++;
+      const ref = { segment: this.active.id, line: this.active.lines++ };
+      this.enforceLimit();
+      return ref;
+    } catch (error) {
+      logger.warn(`Failed to write to spool ${this.directory}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Acknowledge delivered (or deliberately dropped) events, so they are not
+   * replayed. Fully acknowledged segments are deleted.
+   */
+  ack(refs: Array<SpoolRef | undefined>): void {
+    const bySegment = new Map<Segment, number[]>();
+    for (const ref of refs) {
+      const segment = ref && this.segments.get(ref.segment);
+      if (!segment) continue;
+      const lines = bySegment.get(segment) ?? [];
+      lines.push(ref.line);
+      bySegment.set(segment, lines);
+    }
+
+    for (const [segment, lines] of bySegment) {
+      segment.pending -= lines.length;
+      if (segment.pending <= 0) {
+        this.remove(segment);
+        continue;
+      }
+      try {
+        appendFileSync(this.ackPath(segment.id), lines.join("\n") + "\n");
+      } catch (error) {
+        // The events are replayed once more after a restart
+        logger.warn(`Failed to record acknowledged events of ${segment.path}:`, error);
+      }
+    }
+  }
+
+  /** Events written and not acknowledged yet */
+  get depth(): number {
+    let depth = 0;
+    for (const segment of this.segments.values()) depth += segment.pending;
+    return depth;
+  }
+
+  /** Bytes of segment files on disk */
+  get bytes(): number {
+    let bytes = 0;
+    for (const segment of this.segments.values()) bytes += segment.bytes;
+    return bytes;
+  }
+
+  /** Unsent events lost because the spool was full */
+  get dropped(): number {
+    return this.droppedCount;
+  }
+
+  /**
+   * Delete the oldest segments while the spool is over its size limit
+   */
+  private enforceLimit(): void {
+    let bytes = this.bytes;
+    for (const segment of this.segments.values()) {
+      if (bytes <= this.maxBytes || segment === this.active) break;
+      bytes -= segment.bytes;
+      this.droppedCount += segment.pending;
+      logger.warn(`Spool ${this.directory} is full; dropped ${segment.pending} unsent event(s)`);
+      this.remove(segment);
+    }
+  }
+
+  private remove(segment: Segment): void {
+    this.segments.delete(segment.id);
+    if (segment === this.active) {
+      this.active = null;
+    }
+    // The segment first: an ack file without its segment is ignored
+    this.unlink(segment.path);
+    this.unlink(this.ackPath(segment.id));
+  }
+
+  private ackPath(id: number): string {
+    return join(this.directory, `segment-${id}.acks`);
+  }
+
+  /**
+   * Lines of a segment acknowledged by an earlier process
+   */
+  private readAcks(id: number): Set<number> {
+    const path = this.ackPath(id);
+    if (!existsSync(path)) return new Set();
+    try {
+      return new Set(
+        readFileSync(path, "utf8")
+          .split("\n")
+          .filter((line) => line.trim())
+          .map(Number)
+      );
+    } catch (error) {
+      logger.warn(`Failed to read spool acks ${path}:`, error);
+      return new Set();
+    }
+  }
+
+  private unlink(path: string): void {
+    try {
+      unlinkSync(path);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.warn(`Failed to delete spool file ${path}:`, error);
+      }
+    }
+  }
+}
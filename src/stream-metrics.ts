@@ -0,0 +1,94 @@
+/**
+ * Streaming timing metrics
+ *
+ * Shared by the stream wrappers of every provider so streamed events carry
+ * the same time-to-first-token and throughput fields.
+ */
+
+import type { MetricEvent } from "./types.js";
+
+/**
+ * Tracks chunk timing for a single streamed call
+ */
+export interface StreamTimer {
+  /**
+   * Record a received chunk.
+   * @param hasContent - Whether the chunk carries output (text or tool call
+   *   arguments). The first such chunk marks time to first token.
+   */
+  chunk(hasContent: boolean): void;
+  /**
+   * Fill time_to_first_token_ms, stream_duration_ms, output_tokens_per_second
+   * and stream_chunk_count on an event (call after usage is set)
+   */
+  apply<T extends MetricEvent>(event: T): T;
+}
+
+/**
+ * Create a stream timer for a call that started at `t0` (epoch ms)
+ */
+export function createStreamTimer(t0: number): StreamTimer {
+  let firstTokenAt: number | null = null;
+  let lastChunkAt: number | null = null;
+  let chunkCount = 0;
+
+  return {
+    chunk(hasContent) {
+      const now = Date.now();
+      chunkCount++;
+      lastChunkAt = now;
+      if (hasContent && firstTokenAt === null) {
+        firstTokenAt = now;
+      }
+    },
+
+    apply(event) {
+      event.stream_chunk_count = chunkCount;
+      if (firstTokenAt === null) {
+        return event;
+      }
+
+      // Generation time: first content chunk to last chunk received
+      const duration = (lastChunkAt ?? firstTokenAt) - firstTokenAt;
+      event.time_to_first_token_ms = firstTokenAt - t0;
+      event.stream_duration_ms = duration;
+      if (duration > 0 && event.output_tokens > 0) {
+        event.output_tokens_per_second = event.output_tokens / (duration / 1000);
+      }
+      return event;
+    },
+  };
+}
+
+/**
+ * Whether an OpenAI stream event carries output
+ * (Responses API delta events or Chat Completions chunks)
+ */
+export function hasOpenAIStreamContent(event: Record<string, unknown>): boolean {
+  if (typeof event.type === "string") {
+    return (
+      event.type === "response.output_text.delta" ||
+      event.type === "response.refusal.delta" ||
+      event.type === "response.function_call_arguments.delta"
+    );
+  }
+  const choices = event.choices as Array<Record<string, unknown>> | undefined;
+  const delta = choices?.[0]?.delta as Record<string, unknown> | undefined;
+  return !!(delta && (delta.content || delta.tool_calls || delta.refusal));
+}
+
+/**
+ * Whether an Anthropic stream event carries output
+ */
+export function hasAnthropicStreamContent(event: Record<string, unknown>): boolean {
+  return event.type === "content_block_delta";
+}
+
+/**
+ * Whether a Gemini stream chunk carries output (google-generativeai and google-genai)
+ */
+export function hasGeminiStreamContent(chunk: unknown): boolean {
+  const candidates = (chunk as Record<string, unknown> | null)?.candidates as Array<Record<string, unknown>> | undefined;
+  const content = candidates?.[0]?.content as Record<string, unknown> | undefined;
+  return ((content?.parts as unknown[] | undefined)?.length ?? 0) > 0;
+}
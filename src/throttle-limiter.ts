@@ -0,0 +1,170 @@
+/**
+ * Throttle limiters - request rate, token rate and concurrency limits
+ *
+ * One limiter per throttle key (context + provider). Capacity is reserved
+ * when a request is admitted, so concurrent callers queue up behind each
+ * other instead of all retrying at the same moment.
+ */
+
+import { randomUUID } from "crypto";
+import type { ThrottleRule } from "./control-types.js";
+
+/** Sliding window for requests_per_minute (ms) */
+const RATE_WINDOW_MS = 60000;
+
+/**
+ * In-flight requests that never report back (e.g. the process lost the
+ * metric) release their slot after this long (ms)
+ */
+export const LEASE_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * An admitted request that counts against max_concurrent and whose token
+ * estimate is corrected when its metric arrives
+ */
+interface Lease {
+  /** Span ID of the request */
+  id: string;
+  acquiredAt: number;
+  estimatedTokens: number;
+}
+
+/**
+ * Result of admitting a request
+ */
+export interface ThrottleAdmission {
+  /** How long the caller must still wait before sending (ms) */
+  delayMs: number;
+  /** How long admission already waited for a concurrency slot (ms) */
+  waitedMs: number;
+  /** Which limit caused the wait (undefined if none) */
+  reason?: string;
+}
+
+/**
+ * Limiter for one throttle key.
+ *
+ * - requests_per_minute: sliding window over admitted request times
+ * - tokens_per_minute: token bucket (capacity = limit, refilled continuously);
+ *   debited with the estimated input tokens on admission and corrected with
+ *   the actual total tokens when the request completes
+ * - max_concurrent: admission waits until an in-flight request completes
+ */
+export class ThrottleLimiter {
+  // Admission times, including reserved future slots
+  private requestTimes: number[] = [];
+  private tokens: number | null = null;
+  private lastRefill: number = Date.now();
+  private leases: Lease[] = [];
+  private waiters: Array<() => void> = [];
+
+  /**
+   * Admit a request: wait for a concurrency slot, then reserve request and
+   * token capacity and return the delay until that capacity is available
+   *
+   * @param leaseId - Span ID of the request, passed to release() when it completes
+   */
+  async acquire(
+    rule: ThrottleRule,
+    estimatedTokens: number = 0,
+    leaseId: string = randomUUID()
+  ): Promise<ThrottleAdmission> {
+    const start = Date.now();
+    let reason: string | undefined;
+
+    if (rule.max_concurrent) {
+      while (this.activeLeases(Date.now()) >= rule.max_concurrent) {
+        reason = `Concurrency limit: ${rule.max_concurrent} in flight`;
+        await this.waitForRelease();
+      }
+    }
+    const now = Date.now();
+    let delayMs = 0;
+
+    if (rule.requests_per_minute) {
+      const rpm = rule.requests_per_minute;
+      this.requestTimes = this.requestTimes.filter((t) => t > now - RATE_WINDOW_MS);
+      const slot =
+        this.requestTimes.length >= rpm
+          ? Math.max(now, this.requestTimes[this.requestTimes.length - rpm] + RATE_WINDOW_MS)
+          : now;
+      this.requestTimes.push(slot);
+      if (slot > now) {
+        delayMs = slot - now;
+        reason = `Rate limit: ${rpm} requests/min`;
+      }
+    }
+
+    if (rule.tokens_per_minute) {
+      const tpm = rule.tokens_per_minute;
+      // A single request larger than the bucket waits for a full bucket
+      this.tokens = this.refill(tpm, now) - Math.min(estimatedTokens, tpm);
+      if (this.tokens < 0) {
+        const tokenDelay = Math.ceil((-this.tokens * RATE_WINDOW_MS) / tpm);
+        if (tokenDelay > delayMs) {
+          delayMs = tokenDelay;
+          reason = `Token limit: ${tpm} tokens/min`;
+        }
+      }
+    }
+
+    if (rule.max_concurrent || rule.tokens_per_minute) {
+      this.activeLeases(now);
+      this.leases.push({ id: leaseId, acquiredAt: now, estimatedTokens });
+    }
+
+    return { delayMs, waitedMs: now - start, reason };
+  }
+
+  /**
+   * Mark an in-flight request as completed. Requests that were never
+   * admitted (or whose lease timed out) are ignored.
+   *
+   * @param actualTokens - Total tokens the request used, to correct the estimate
+   * @param leaseId - Span ID the request was admitted with
+   */
+  release(rule: ThrottleRule, actualTokens: number, leaseId: string): void {
+    const index = this.leases.findIndex((lease) => lease.id === leaseId);
+    if (index === -1) return;
+    const [lease] = this.leases.splice(index, 1);
+
+    if (rule.tokens_per_minute) {
+      this.tokens = this.refill(rule.tokens_per_minute, Date.now()) - (actualTokens - lease.estimatedTokens);
+    }
+    this.waiters.shift()?.();
+  }
+
+  /**
+   * Refill the token bucket up to `now` and return the available tokens
+   */
+  private refill(tpm: number, now: number): number {
+    const elapsed = now - this.lastRefill;
+    this.lastRefill = now;
+    return this.tokens === null ? tpm : Math.min(tpm, this.tokens + (elapsed * tpm) / RATE_WINDOW_MS);
+  }
+
+  private activeLeases(now: number): number {
+    while (this.leases.length > 0 && this.leases[0].acquiredAt <= now - LEASE_TIMEOUT_MS) {
+      this.leases.shift();
+    }
+    return this.leases.length;
+  }
+
+  /**
+   * Resolve on the next release, or when the oldest lease times out
+   */
+  private waitForRelease(): Promise<void> {
+    const expiresIn = Math.max(0, this.leases[0].acquiredAt + LEASE_TIMEOUT_MS - Date.now());
+    return new Promise((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter((w) => w !== wake);
+        resolve();
+      }, expiresIn);
+      this.waiters.push(wake);
+    });
+  }
+}
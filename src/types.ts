@@ -1,5 +1,7 @@
 import type OpenAI from "openai";
 import type { IControlAgent } from "./control-types.js";
+import type { PricingRegistry, PricingOverrides } from "./pricing.js";
+import type { ResponseCache } from "./response-cache.js";
 
 /**
  * Normalized usage metrics that work across both API response shapes
@@ -14,8 +16,16 @@ export interface NormalizedUsage {
   total_tokens: number;
   /** Reasoning tokens used (for o1/o3 models) */
   reasoning_tokens: number;
-  /** Tokens served from prompt cache (reduces cost) */
+  /** Tokens served from prompt cache (reduces cost). Same as cache_read_tokens */
   cached_tokens: number;
+  /** Input tokens read from the prompt cache (billed at the cached input rate). Default: 0 */
+  cache_read_tokens?: number;
+  /** Input tokens written to the prompt cache (Anthropic bills these at a premium). Default: 0 */
+  cache_write_tokens?: number;
+  /** Portion of cache_write_tokens written with the 1-hour TTL tier (default tier: 5 minutes). Default: 0 */
+  cache_write_1h_tokens?: number;
+  /** Hours the written tokens are stored for (Gemini explicit cached content) */
+  cache_storage_hours?: number;
   /** Prediction tokens that were accepted */
   accepted_prediction_tokens: number;
   /** Prediction tokens that were rejected */
@@ -58,6 +68,23 @@ export interface CallSite {
   function?: string;
 }
 
+/**
+ * Kind of API call a metric event describes
+ */
+export type MetricOperation =
+  | "chat"
+  | "responses"
+  | "embedding"
+  | "image_generation"
+  | "image_edit"
+  | "image_variation"
+  | "transcription"
+  | "translation"
+  | "speech"
+  | "moderation"
+  | "count_tokens"
+  | "cache_create";
+
 /**
  * Complete metric event emitted after each API call.
  * All fields are flat (not nested) for consistent cross-provider analytics.
@@ -77,14 +104,24 @@ export interface MetricEvent {
   provider: "openai" | "gemini" | "anthropic" | "dify";
   /** Model used for the request */
   model: string;
+  /** Kind of API call (absent means a chat/message call) */
+  operation?: MetricOperation;
   /** Whether streaming was enabled */
   stream: boolean;
   /** ISO timestamp when the request started */
   timestamp: string;
 
   // === Performance ===
-  /** Request latency in milliseconds */
+  /** Request latency in milliseconds (streams: until the stream ends) */
   latency_ms: number;
+  /** Time from request start to the first streamed content delta (streams only) */
+  time_to_first_token_ms?: number;
+  /** Time from the first content delta to the last chunk (streams only) */
+  stream_duration_ms?: number;
+  /** Output tokens divided by stream_duration_ms (streams only) */
+  output_tokens_per_second?: number;
+  /** Number of chunks/events received (streams only) */
+  stream_chunk_count?: number;
   /** HTTP status code (if available) */
   status_code?: number;
   /** Error message if request failed */
@@ -99,18 +136,53 @@ export interface MetricEvent {
   total_tokens: number;
   /** Tokens served from cache (reduces cost) */
   cached_tokens: number;
+  /** Input tokens written to the prompt cache (Anthropic cache_creation_input_tokens) */
+  cache_write_tokens?: number;
+  /** Portion of cache_write_tokens written with the 1-hour TTL tier */
+  cache_write_1h_tokens?: number;
+  /** Hours the written tokens are stored for (Gemini explicit cached content) */
+  cache_storage_hours?: number;
   /** Reasoning tokens used (for o1/o3 models) */
   reasoning_tokens: number;
 
-  // === Cost (from providers that report it, e.g., Dify) ===
-  /** Cost for input/prompt tokens (USD) */
+  // === Non-token Usage (images, audio, speech) ===
+  /** Images generated or edited */
+  image_count?: number;
+  /** Requested image size (e.g. "1024x1024") */
+  image_size?: string;
+  /** Requested image quality (e.g. "standard", "hd") */
+  image_quality?: string;
+  /** Audio duration processed, in seconds (transcription/translation) */
+  audio_seconds?: number;
+  /** Characters of input text (speech synthesis) */
+  character_count?: number;
+
+  // === Cost (priced at emit time, or as reported by the provider, e.g., Dify) ===
+  /** Cost for input/prompt tokens, including cached input (USD) */
   input_cost?: number;
-  /** Cost for output/completion tokens (USD) */
+  /** Cost for output/completion tokens, including reasoning (USD) */
   output_cost?: number;
+  /** Portion of input_cost billed at the cached input rate (USD) */
+  cached_input_cost?: number;
+  /** Portion of input_cost billed at the cache write rates (USD) */
+  cache_write_cost?: number;
+  /** Portion of unit_cost for cache storage (USD) */
+  cache_storage_cost?: number;
+  /** Portion of output_cost billed for reasoning tokens (USD) */
+  reasoning_cost?: number;
+  /** Cost of non-token units: images, audio minutes, characters, cache storage (USD) */
+  unit_cost?: number;
   /** Total cost for the request (USD) */
   total_cost?: number;
   /** Currency for cost fields (e.g., 'USD') */
   currency?: string;
+  /** Price sheet used to compute the cost (registry key) */
+  pricing_model?: string;
+  /**
+   * How the price was found: exact model match, alias, fallback prices
+   * for an unknown model, or a cost reported by the provider
+   */
+  pricing_match?: "exact" | "alias" | "fallback" | "provider";
 
   // === Rate Limits (flat) ===
   /** Remaining requests in current window */
@@ -121,6 +193,36 @@ export interface MetricEvent {
   rate_limit_reset_requests?: number;
   /** Time until token limit resets (seconds) */
   rate_limit_reset_tokens?: number;
+  /** Request limit of the current window */
+  rate_limit_limit_requests?: number;
+  /** Token limit of the current window */
+  rate_limit_limit_tokens?: number;
+  /** Seconds the provider asked to wait before retrying (retry-after) */
+  rate_limit_retry_after?: number;
+
+  // === Retries (flat) ===
+  /** HTTP attempts made for this call, including SDK-internal retries */
+  attempt_count?: number;
+  /**
+   * Why earlier attempts failed, in order (comma-separated: rate_limit,
+   * overloaded, server_error, timeout, conflict, connection)
+   */
+  retry_reasons?: string;
+  /** Total time waited between attempts (ms), included in latency_ms */
+  retry_backoff_ms?: number;
+
+  // === Response Cache ===
+  /** Served from the response cache without calling the provider (no tokens used) */
+  cache_hit?: boolean;
+  /** What the call would have cost without the cache (USD, cache hits only) */
+  cost_avoided?: number;
+
+  // === Sampling ===
+  /**
+   * Fraction of traces this event was sampled from (createSamplingEmitter).
+   * Divide counts by it to estimate totals. Unset when every event is kept.
+   */
+  sample_rate?: number;
 
   // === Call Relationship Tracking ===
   /** Sequence number within the trace */
@@ -149,6 +251,8 @@ export interface MetricEvent {
   // === Provider-specific (optional) ===
   /** Service tier (OpenAI: auto, default, flex, priority) */
   service_tier?: string;
+  /** Whether the request ran through a batch API (priced at batch rates) */
+  batch?: boolean;
   /** Custom metadata attached to the request */
   metadata?: Record<string, string>;
 }
@@ -165,6 +269,12 @@ export interface RateLimitInfo {
   reset_requests?: number;
   /** Time until token limit resets (seconds) */
   reset_tokens?: number;
+  /** Request limit of the current window */
+  limit_requests?: number;
+  /** Token limit of the current window */
+  limit_tokens?: number;
+  /** Seconds the provider asked to wait before retrying (retry-after) */
+  retry_after?: number;
 }
 
 /**
@@ -190,6 +300,8 @@ export type MetricEmitter = (event: MetricEvent) => void | Promise<void>;
 export interface BeforeRequestContext {
   /** The model being used for this request */
   model: string;
+  /** Provider being called (openai, anthropic, gemini, dify) */
+  provider?: string;
   /** Whether this is a streaming request */
   stream: boolean;
   /** Generated span ID for this request (OTel standard) */
@@ -270,6 +382,22 @@ export interface SDKClasses {
   Dify?: any;
 }
 
+/**
+ * Clients that serve requests degraded to another provider
+ * (e.g. an Anthropic request degraded to an OpenAI model)
+ */
+export interface DegradeClients {
+  /** OpenAI client (serves requests as chat completions) */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  openai?: any;
+  /** Anthropic client (serves requests as messages) */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  anthropic?: any;
+  /** GoogleGenAI client from @google/genai (serves requests with models.generateContent) */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  gemini?: any;
+}
+
 /**
  * Default control server URL
  */
@@ -311,6 +439,15 @@ export interface MeterOptions {
    */
   serverUrl?: string;
 
+  /**
+   * Path to a local JSON/YAML control policy file.
+   * When set without an apiKey, a control agent enforces the policy offline
+   * (no control server) and reloads it when the file changes.
+   *
+   * If not provided, checks ADEN_POLICY_FILE environment variable.
+   */
+  policyFile?: string;
+
   /**
    * Whether to allow requests when control server is unreachable.
    * Default: true (fail open - requests proceed if server is down)
@@ -385,7 +522,7 @@ export interface MeterOptions {
   /**
    * Pre-configured control agent instance.
    * Use this for advanced control agent configuration.
-   * When apiKey is provided, a control agent is created automatically.
+   * When apiKey or policyFile is provided, a control agent is created automatically.
    */
   controlAgent?: IControlAgent;
   /**
@@ -405,6 +542,52 @@ export interface MeterOptions {
    * ```
    */
   onAlert?: (alert: { level: "info" | "warning" | "critical"; message: string; reason: string; contextId?: string; provider: string; model: string; timestamp: Date }) => void | Promise<void>;
+  /**
+   * Prices used to fill the cost fields of each metric event.
+   * Pass a registry, or per-model overrides layered on top of the shared
+   * registry (e.g. negotiated rates). Default: shared pricing registry.
+   *
+   * @example
+   * ```typescript
+   * instrument({
+   *   emitMetric: createConsoleEmitter(),
+   *   pricing: { "gpt-4o": { input: 2.0, output: 8.0, cached: 1.0 } },
+   * });
+   * ```
+   */
+  pricing?: PricingRegistry | PricingOverrides;
+  /**
+   * Clients used when a degrade decision moves a request to another provider.
+   * OpenAI chat completions and Anthropic messages are translated to the
+   * target provider and the response is translated back. Without a client
+   * for the target, the request keeps its original provider and model.
+   *
+   * @example
+   * ```typescript
+   * instrument({
+   *   apiKey: process.env.ADEN_API_KEY,
+   *   sdks: { OpenAI, Anthropic },
+   *   degradeClients: { openai: new OpenAI() },
+   * });
+   * ```
+   */
+  degradeClients?: DegradeClients;
+  /**
+   * Serve repeated identical requests from a cache instead of the provider.
+   * Applies to non-streaming OpenAI chat completions and responses and
+   * Anthropic messages. Hits are checked after beforeRequest, so the
+   * control policy still applies; only the provider call is skipped.
+   *
+   * @example
+   * ```typescript
+   * instrument({
+   *   emitMetric: createConsoleEmitter(),
+   *   sdks: { OpenAI },
+   *   responseCache: createResponseCache({ ttlMs: 3600000 }),
+   * });
+   * ```
+   */
+  responseCache?: ResponseCache;
 }
 
 /**